@@ -3,12 +3,15 @@ import {
   AttributeValue,
 } from "@/registry/new-york/tag-search-box/TagSearchBox";
 import { Button } from "./components/ui/button";
+import { Users } from "lucide-react";
+import { z } from "zod";
 
 const attributes: AttributeValue[] = [
   {
     type: "single",
     key: "status",
     name: "Status",
+    operators: ["=", "!="],
     values: [
       {
         key: "running",
@@ -21,10 +24,17 @@ const attributes: AttributeValue[] = [
     key: "type",
     name: "Type",
   },
+  {
+    type: "input",
+    key: "ip",
+    name: "IP",
+    schema: z.string().ip({ message: "Invalid IP address" }),
+  },
   {
     type: "multiple",
     key: "region",
     name: "Region",
+    aliases: ["az", "zone"],
     values: [
       {
         key: "east-1",
@@ -32,6 +42,32 @@ const attributes: AttributeValue[] = [
       },
     ],
   },
+  {
+    type: "multiple",
+    key: "owner",
+    name: "Owner",
+    description: "Team that owns the resource",
+    icon: <Users />,
+    placeholder: "Search teams",
+    values: async ({ keyword, page }) => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      const values = Array.from({ length: 20 }, (_, i) => {
+        const id = (page - 1) * 20 + i + 1;
+        return { key: `user-${id}`, name: `${keyword || "user"}-${id}` };
+      });
+      return { values, hasMore: page < 5 };
+    },
+  },
+  {
+    type: ["number", { min: 0, max: 64, unit: "GB" }],
+    key: "memory",
+    name: "Memory",
+  },
+  {
+    type: "dateRange",
+    key: "created",
+    name: "Created",
+  },
 ];
 
 export default function App() {
@@ -1,7 +1,24 @@
 import React, { Component } from "react";
+import type { ZodType } from "zod";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
 import { CommandItem, Command, CommandGroup } from "@/components/ui/command";
 import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+import {
+  getAttrNames,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator";
+import { DateTypeOptions } from "@/registry/new-york/tag-search-box/utils/DateValue";
+import { NumberTypeOptions } from "@/registry/new-york/tag-search-box/utils/NumberValue";
+import {
+  filterList,
+  FilteredItem,
+} from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import {
+  createActiveOptionNotifier,
+  ListboxProps,
+} from "@/registry/new-york/tag-search-box/utils/Listbox";
+import { Highlight } from "@/registry/new-york/tag-search-box/Highlight";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 export interface Value {
@@ -17,6 +34,38 @@ export interface Value {
    * 项渲染样式
    */
   style?: React.CSSProperties;
+  /**
+   * 日期类型属性解析后的日期，日期范围类型为 `[开始, 结束]`
+   */
+  date?: Date | [Date, Date];
+  /**
+   * 数值类型属性解析后的数值，范围为 `[下限, 上限]`
+   */
+  number?: number | [number, number];
+}
+export interface ValuesLoaderContext {
+  /**
+   * 当前搜索关键字
+   */
+  keyword: string;
+  /**
+   * 关键字变化或组件卸载时中止请求
+   */
+  signal: AbortSignal;
+  /**
+   * 页码，从 1 开始
+   */
+  page: number;
+}
+export interface ValuesLoaderResult {
+  /**
+   * 当前页的可用值
+   */
+  values: Value[];
+  /**
+   * 是否还有下一页
+   */
+  hasMore?: boolean;
 }
 export interface AttributeRenderProps {
   /**
@@ -38,7 +87,14 @@ export interface AttributeRenderProps {
    */
   onCancel: () => void;
 }
-export type AttributeType = "input" | "single" | "multiple" | "render";
+export type AttributeType =
+  | "input"
+  | "single"
+  | "multiple"
+  | "render"
+  | "date"
+  | "dateRange"
+  | "number";
 export type AttributeTypeOptions =
   | ["input", {}]
   | ["render", {}]
@@ -55,6 +111,10 @@ export type AttributeTypeOptions =
          * 无可选项时提示内容
          */
         emptyText?: React.ReactNode;
+        /**
+         * 可选值加载失败时提示内容
+         */
+        errorText?: React.ReactNode;
         /**
          * 列表最大宽度
          * @since 2.7.9
@@ -85,6 +145,10 @@ export type AttributeTypeOptions =
          * 无可选项时提示内容
          */
         emptyText?: React.ReactNode;
+        /**
+         * 可选值加载失败时提示内容
+         */
+        errorText?: React.ReactNode;
         /**
          * 列表最大宽度
          * @since 2.7.9
@@ -96,7 +160,10 @@ export type AttributeTypeOptions =
          */
         itemRender?: (text: string, value: Value) => React.ReactNode;
       }
-    ];
+    ]
+  | ["date", DateTypeOptions]
+  | ["dateRange", DateTypeOptions]
+  | ["number", NumberTypeOptions];
 export interface AttributeValue {
   /**
    * 为资源属性需求值的类型
@@ -112,6 +179,7 @@ export interface AttributeValue {
    *`"single"`：
    *  - `searchable` 是否启用搜索
    *  - `emptyText` 无可选项时提示内容
+   *  - `errorText` 可选值加载失败时提示内容
    *  - `maxWidth` 列表最大宽度
    *  - `itemRender` 自定义渲染列表项
    *
@@ -119,10 +187,25 @@ export interface AttributeValue {
    *  - `all` 是否启用全选
    *  - `searchable` 是否启用搜索
    *  - `emptyText` 无可选项时提示内容
+   *  - `errorText` 可选值加载失败时提示内容
    *  - `maxWidth` 列表最大宽度
    *  - `itemRender` 自定义渲染列表项
    *
-   * @docType "input" | "single" | "multiple" | "render" | [AttributeType, AttributeOptions]
+   *`"date"` / `"dateRange"`：
+   *  - `format` 日期展示及输入格式，默认 `yyyy-MM-dd`
+   *  - `min` / `max` 可选日期范围
+   *  - `presets` 快捷选项
+   *
+   * 日期范围可手动输入，如 `创建时间: 2026-01-01 ~ 2026-02-01`
+   *
+   *`"number"`：
+   *  - `min` / `max` / `step` 取值范围及步长
+   *  - `unit` 单位
+   *  - `range` 滑块是否默认选择范围
+   *
+   * 可输入单个数值或范围，如 `内存: 4 - 8 GB`
+   *
+   * @docType "input" | "single" | "multiple" | "render" | "date" | "dateRange" | "number" | [AttributeType, AttributeOptions]
    */
   type: AttributeType | AttributeTypeOptions;
   /**
@@ -133,11 +216,40 @@ export interface AttributeValue {
    * 资源属性值名称
    */
   name: string;
+  /**
+   * 属性所属分组，下拉列表中按分组展示，分组顺序等通过 `attributeGroups` 配置
+   */
+  group?: string;
+  /**
+   * 属性别名，可与属性名称或 `key` 一样直接输入，如 `az: 值`
+   *
+   * 同时用于粘贴文本的解析及属性列表的过滤
+   */
+  aliases?: string[];
+  /**
+   * 属性说明，展示在属性下拉列表及帮助中
+   */
+  description?: React.ReactNode;
+  /**
+   * 属性图标，展示在属性下拉列表及标签中，如 lucide 图标
+   */
+  icon?: React.ReactNode;
+  /**
+   * 选择属性后、输入值之前在输入框中展示的提示
+   */
+  placeholder?: string;
   /**
    * 资源属性可用值
-   * @docType Value[] | (() => Value[]) | (() => Promise<Value[]>)
+   *
+   * 函数返回 `Promise<{ values, hasMore }>` 时为远程搜索模式：输入关键字时会重新调用（带防抖，过期请求通过 `signal` 中止），列表滚动到底部时加载下一页
+   *
+   * @docType Value[] | (() => Value[]) | (() => Promise<Value[]>) | ((ctx: ValuesLoaderContext) => Promise<ValuesLoaderResult>)
    */
-  values?: Value[] | (() => Value[]) | (() => Promise<Value[]>);
+  values?:
+    | Value[]
+    | (() => Value[])
+    | (() => Promise<Value[]>)
+    | ((ctx: ValuesLoaderContext) => Promise<ValuesLoaderResult>);
   /**
    * 该属性是否可重复选择
    * @default false
@@ -148,22 +260,82 @@ export interface AttributeValue {
    * @default true
    */
   removeable?: boolean;
+  /**
+   * 该属性可用的比较运算符
+   *
+   * 配置后可输入 `属性 != 值` 的形式，或在选择属性后从下拉列表中选择运算符；`属性: 值` 等同于 `=`
+   *
+   * @docType Array<"=" | "!=" | ">" | "<" | "contains" | "startsWith">
+   */
+  operators?: TagOperator[];
+  /**
+   * 校验标签值，返回错误信息表示校验失败，支持返回 Promise
+   *
+   * 校验失败时根据搜索框的 `validationMode` 阻止生成标签或标红保留
+   */
+  validate?: (
+    values: Value[]
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * 使用 zod schema 逐个校验值的名称，如 `z.string().ip()`，先于 `validate` 执行
+   */
+  schema?: ZodType;
   /**
    * 自定义渲染
    */
   render?: (props: AttributeRenderProps) => React.ReactNode;
 }
-export interface AttributeSelectProps {
+export interface AttributeGroup {
+  /**
+   * 分组标识，与 `AttributeValue.group` 对应
+   */
+  key: string;
+  /**
+   * 分组标题，默认为 `key`
+   */
+  name?: React.ReactNode;
+  /**
+   * 是否置顶，用于“常用”等分组
+   * @default false
+   */
+  pinned?: boolean;
+  /**
+   * 是否默认折叠
+   * @default false
+   */
+  defaultCollapsed?: boolean;
+}
+export interface AttributeSelectProps extends ListboxProps {
   attributes: AttributeValue[];
   inputValue: string;
   onSelect?: (attribute: AttributeValue) => void;
   maxHeight: number;
+  /**
+   * 输入为空时是否在属性前展示最近搜索
+   */
+  showRecent?: boolean;
 }
 export interface AttributeSelectState {
   select: number;
   lastInputValue: string;
 }
 
+interface AttributeMatch extends FilteredItem<AttributeValue> {
+  /**
+   * 通过 key 或别名匹配时的对应文本，此时 `match` 为该文本的匹配结果
+   */
+  alias?: string;
+}
+
+interface AttributeGroupList {
+  /**
+   * 未分组的属性为 `null`
+   */
+  group: AttributeGroup | null;
+  items: AttributeMatch[];
+  collapsed: boolean;
+}
+
 const keys: Record<
   string,
   "backspace" | "tab" | "enter" | "left" | "up" | "right" | "down"
@@ -184,6 +356,10 @@ export class AttributeSelect extends Component<
   static contextType = TagSearchBoxContext;
   declare context: React.ContextType<typeof TagSearchBoxContext>;
 
+  // 列表项元素，下标与 `select` 一致
+  private options: (HTMLDivElement | null)[] = [];
+  private notifyActiveOption = createActiveOptionNotifier();
+
   constructor(props: AttributeSelectProps) {
     super(props);
     this.state = {
@@ -202,22 +378,110 @@ export class AttributeSelect extends Component<
     return null;
   }
 
-  getUseableList() {
+  componentDidMount() {
+    this.updateActiveOption();
+  }
+
+  componentDidUpdate() {
+    this.updateActiveOption();
+  }
+
+  componentWillUnmount() {
+    this.props.onActiveOptionChange?.(undefined);
+  }
+
+  // 列表项 id 由 cmdk 生成，渲染后从元素上读取
+  updateActiveOption() {
+    const { select } = this.state;
+    this.notifyActiveOption(
+      select >= 0 ? this.options[select]?.id : undefined,
+      this.props
+    );
+  }
+
+  // 按匹配得分排序的可用属性
+  getMatchedList(): AttributeMatch[] {
     const { attributes, inputValue } = this.props;
-    const { disableAttributesFilter } = this.context;
+    const { disableAttributesFilter, filterFn } = this.context;
 
     if (disableAttributesFilter) {
-      return attributes;
+      return filterList(attributes, (item) => item.name, "");
     }
     // 获取冒号前字符串模糊查询
     const fuzzyValue = /(.*?)(:|：).*/.test(inputValue)
       ? RegExp.$1
       : inputValue;
-    return attributes.filter(
-      (item) => item.name.includes(inputValue) || item.name.includes(fuzzyValue)
+    // 名称、key 及别名均参与匹配，每个属性取得分最高的一项
+    const names = attributes.flatMap((item, index) =>
+      getAttrNames(item).map((name, order) => ({ item, index, name, order }))
+    );
+    const matched = new Map<number, AttributeMatch>();
+    [inputValue, fuzzyValue].forEach((keyword) => {
+      filterList(names, ({ name }) => name, keyword, filterFn).forEach(
+        ({ item: { item, index, name, order }, match }) => {
+          const prev = matched.get(index);
+          if (prev && prev.match.score >= match.score) return;
+          matched.set(index, {
+            item,
+            index,
+            match,
+            ...(order > 0 ? { alias: name } : {}),
+          });
+        }
+      );
+    });
+    return [...matched.values()].sort(
+      (a, b) => b.match.score - a.match.score || a.index - b.index
     );
   }
 
+  // 按分组整理匹配结果：置顶分组在前，其余按配置顺序及属性出现顺序，未分组的属性在最后
+  getGroupedList(): AttributeGroupList[] {
+    const { attributes, inputValue } = this.props;
+    const { attributeGroups = [], collapsedGroups = [] } = this.context;
+
+    const lists = new Map<string, AttributeGroupList>();
+    const addGroup = (group: AttributeGroup) => {
+      if (lists.has(group.key)) return;
+      lists.set(group.key, {
+        group,
+        items: [],
+        // 输入过滤时展开全部分组
+        collapsed: !inputValue && collapsedGroups.includes(group.key),
+      });
+    };
+    attributeGroups.filter((group) => group.pinned).forEach(addGroup);
+    attributeGroups.filter((group) => !group.pinned).forEach(addGroup);
+    attributes.forEach((item) => item.group && addGroup({ key: item.group }));
+
+    const ungrouped: AttributeGroupList = {
+      group: null,
+      items: [],
+      collapsed: false,
+    };
+    this.getMatchedList().forEach((match) => {
+      const { group } = match.item;
+      (group ? lists.get(group)! : ungrouped).items.push(match);
+    });
+
+    return [...lists.values(), ungrouped].filter(
+      (list) => list.items.length > 0
+    );
+  }
+
+  // 可通过键盘选择的属性，不包括分组标题及折叠分组中的属性
+  getUseableList() {
+    return this.getGroupedList().flatMap(({ items, collapsed }) =>
+      collapsed ? [] : items.map(({ item }) => item)
+    );
+  }
+
+  getRecentList() {
+    const { showRecent, inputValue } = this.props;
+    const { recentSearches = [] } = this.context;
+    return showRecent && !inputValue ? recentSearches : [];
+  }
+
   getAttribute(selectIndex: number) {
     const list = this.getUseableList();
     if (selectIndex < list.length) {
@@ -225,11 +489,12 @@ export class AttributeSelect extends Component<
     }
   }
 
+  // 选中项下标依次对应最近搜索及属性
   move = (step: number) => {
-    const list = this.getUseableList();
-    if (list.length <= 0) return;
+    const count = this.getRecentList().length + this.getUseableList().length;
+    if (count <= 0) return;
     this.setState((prevState) => ({
-      select: (prevState.select + step + list.length) % list.length,
+      select: (prevState.select + step + count) % count,
     }));
   };
 
@@ -238,13 +503,18 @@ export class AttributeSelect extends Component<
 
     const { onSelect } = this.props;
     const { select } = this.state;
+    const recentList = this.getRecentList();
 
     switch (keys[keyCode]) {
       case "enter":
       case "tab":
         if (select < 0) break;
+        if (select < recentList.length) {
+          this.context.onRecentSelect?.(recentList[select].tags);
+          return false;
+        }
         if (onSelect) {
-          onSelect(this.getAttribute(select)!);
+          onSelect(this.getAttribute(select - recentList.length)!);
         }
         return false;
       case "up":
@@ -263,36 +533,151 @@ export class AttributeSelect extends Component<
     }
   };
 
+  handleGroupToggle = (e: React.MouseEvent, key: string) => {
+    e.stopPropagation();
+    this.context.onAttributeGroupToggle?.(key);
+    this.setState({ select: -1 });
+  };
+
+  renderGroupHeading({ group, items, collapsed }: AttributeGroupList) {
+    const { inputValue } = this.props;
+    const title = group!.name ?? group!.key;
+
+    // 输入过滤时分组均展开，不可折叠
+    if (inputValue) return title;
+
+    const Icon = collapsed ? ChevronRight : ChevronDown;
+    return (
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-left"
+        // 保持输入框焦点
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={(e) => this.handleGroupToggle(e, group!.key)}
+      >
+        <Icon className="h-3 w-3 shrink-0" />
+        <span className="flex-1 truncate">{title}</span>
+        {collapsed && <span className="tabular-nums">{items.length}</span>}
+      </button>
+    );
+  }
+
   render() {
-    const { maxHeight } = this.props;
+    const { maxHeight, listboxId } = this.props;
     const { select } = this.state;
-    const { attributesSelectTips } = this.context;
-
-    const list = this.getUseableList().map((item, index) => (
-      <CommandItem
-        key={index}
-        onSelect={(e) => this.handleClick(index)}
-        className={cn(
-          "flex cursor-pointer items-center rounded-sm px-2 py-1.5 text-sm outline-none",
-          "aria-selected:bg-accent aria-selected:text-accent-foreground",
-          select === index && "bg-accent text-accent-foreground"
-        )}
-      >
-        {item.name}
-      </CommandItem>
-    ));
+    const { attributesSelectTips, onRecentSelect, t } = this.context;
+    const recentList = this.getRecentList();
+
+    const groupedList = this.getGroupedList();
 
-    if (list.length === 0) return null;
+    // 属性下标按展示顺序连续计数，跳过分组标题及折叠的分组
+    let index = 0;
+    const renderItem = ({ item, match, alias }: AttributeMatch) => {
+      const itemIndex = index++;
+      const optionIndex = itemIndex + recentList.length;
+      return (
+        <CommandItem
+          key={item.key}
+          ref={(element) => {
+            this.options[optionIndex] = element;
+          }}
+          value={`attr-${optionIndex}`}
+          onSelect={() => this.handleClick(itemIndex)}
+          className={cn(
+            "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none",
+            "hover:bg-accent/50",
+            "aria-selected:bg-accent aria-selected:text-accent-foreground"
+          )}
+        >
+          {item.icon && (
+            <span className="flex h-4 w-4 shrink-0 items-center justify-center text-muted-foreground [&_svg]:h-4 [&_svg]:w-4">
+              {item.icon}
+            </span>
+          )}
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center">
+              <Highlight
+                text={item.name}
+                indexes={alias ? [] : match.indexes}
+              />
+              {alias && (
+                <span className="ml-2 truncate text-xs text-muted-foreground">
+                  <Highlight text={alias} indexes={match.indexes} />
+                </span>
+              )}
+            </div>
+            {item.description && (
+              <div className="truncate text-xs text-muted-foreground">
+                {item.description}
+              </div>
+            )}
+          </div>
+        </CommandItem>
+      );
+    };
+
+    const list = groupedList.map((groupList) =>
+      groupList.group ? (
+        <CommandGroup
+          key={groupList.group.key}
+          heading={this.renderGroupHeading(groupList)}
+        >
+          {!groupList.collapsed && groupList.items.map(renderItem)}
+        </CommandGroup>
+      ) : (
+        <CommandGroup key="">{groupList.items.map(renderItem)}</CommandGroup>
+      )
+    );
+
+    if (list.length === 0 && recentList.length === 0) return null;
+
+    const activeValue =
+      select < 0
+        ? ""
+        : select < recentList.length
+          ? `recent-${select}`
+          : `attr-${select}`;
 
     return (
       <DropdownMenu>
-        <Command style={{ maxHeight: maxHeight }}>
-          <CommandGroup>
+        {/* 高亮项由键盘操作控制，同步至 cmdk 以设置列表项的 aria-selected */}
+        <Command
+          style={{ maxHeight: maxHeight }}
+          value={activeValue}
+        >
+          <div role="listbox" id={listboxId} aria-label={t("attributes")}>
+            {recentList.length > 0 && (
+              <CommandGroup heading={t("recent")}>
+                {recentList.map((item, index) => (
+                  <CommandItem
+                    key={`recent-${index}`}
+                    ref={(element) => {
+                      this.options[index] = element;
+                    }}
+                    value={`recent-${index}`}
+                    onSelect={() => onRecentSelect?.(item.tags)}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none",
+                      "hover:bg-accent/50",
+                      "aria-selected:bg-accent aria-selected:text-accent-foreground"
+                    )}
+                    title={item.label}
+                  >
+                    <History className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{item.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
             {attributesSelectTips && (
-              <CommandItem disabled>{attributesSelectTips}</CommandItem>
+              <CommandGroup>
+                <CommandItem disabled value="tips">
+                  {attributesSelectTips}
+                </CommandItem>
+              </CommandGroup>
             )}
             {list}
-          </CommandGroup>
+          </div>
         </Command>
       </DropdownMenu>
     );
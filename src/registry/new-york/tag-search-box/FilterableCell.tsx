@@ -0,0 +1,145 @@
+import React, { useCallback, useContext, useRef } from "react";
+import { Filter, FilterX } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { TableCell } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import {
+  TagFilterContext,
+  TagFilterTarget,
+} from "@/registry/new-york/tag-search-box/TagFilterContext";
+import { findStaticValue } from "@/registry/new-york/tag-search-box/utils/AttributeType";
+import { defaultTranslate } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 连接表格等外部内容与其中的 `TagSearchBox`，包含多个搜索框时操作最后渲染的一个
+ */
+export const TagFilterProvider = ({
+  children,
+}: {
+  children?: React.ReactNode;
+}) => {
+  const targetRef = useRef<TagFilterTarget | null>(null);
+  return (
+    <TagFilterContext.Provider value={targetRef}>
+      {children}
+    </TagFilterContext.Provider>
+  );
+};
+
+/**
+ * 获取对最近的 `TagFilterProvider` 中搜索框的筛选操作
+ *
+ * - `filter` 按属性值筛选，已筛选时取消
+ * - `filterOut` 排除属性值，已排除时取消
+ *
+ * 属性不可重复使用时值合并到该属性已有的标签；取消筛选需移除整个标签时同点击删除按钮，经过 `onDeleteTag` 确认
+ */
+export function useTagFilterAction() {
+  const targetRef = useContext(TagFilterContext);
+
+  const toggle = useCallback(
+    (attrKey: string, value: string | Value, negated: boolean) => {
+      const target = targetRef?.current;
+      const attr = target?.attributes.find((item) => item.key === attrKey);
+      if (!target || !attr) return;
+
+      target.toggleFilter(
+        attr,
+        typeof value === "string"
+          ? findStaticValue(attr, value) ?? { key: value, name: value }
+          : value,
+        negated
+      );
+    },
+    [targetRef]
+  );
+
+  const filter = useCallback(
+    (attrKey: string, value: string | Value) => toggle(attrKey, value, false),
+    [toggle]
+  );
+
+  const filterOut = useCallback(
+    (attrKey: string, value: string | Value) => toggle(attrKey, value, true),
+    [toggle]
+  );
+
+  return { filter, filterOut };
+}
+
+// 菜单打开时才渲染，此时搜索框已完成注册
+const FilterMenuItems = ({
+  onFilter,
+  onFilterOut,
+}: {
+  onFilter: () => void;
+  onFilterOut: () => void;
+}) => {
+  const t = useContext(TagFilterContext)?.current?.t ?? defaultTranslate;
+  return (
+    <>
+      <ContextMenuItem onSelect={onFilter}>
+        <Filter />
+        {t("filterBy")}
+      </ContextMenuItem>
+      <ContextMenuItem onSelect={onFilterOut}>
+        <FilterX />
+        {t("filterOut")}
+      </ContextMenuItem>
+    </>
+  );
+};
+
+interface FilterableCellProps extends React.ComponentProps<"td"> {
+  /**
+   * 筛选的属性 key
+   */
+  attrKey: string;
+  /**
+   * 筛选的值，字符串按 key 或名称匹配属性的可选值
+   */
+  value: string | Value;
+}
+
+/**
+ * 点击即按单元格的值筛选的表格单元格，右键菜单中可排除该值
+ */
+export const FilterableCell = ({
+  attrKey,
+  value,
+  className,
+  children,
+  onClick,
+  ...props
+}: FilterableCellProps) => {
+  const { filter, filterOut } = useTagFilterAction();
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <TableCell
+          {...props}
+          className={cn("cursor-pointer hover:underline", className)}
+          onClick={(e) => {
+            onClick?.(e);
+            if (!e.defaultPrevented) filter(attrKey, value);
+          }}
+        >
+          {children ?? (typeof value === "string" ? value : value.name)}
+        </TableCell>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="ignore-outside-click">
+        <FilterMenuItems
+          onFilter={() => filter(attrKey, value)}
+          onFilterOut={() => filterOut(attrKey, value)}
+        />
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
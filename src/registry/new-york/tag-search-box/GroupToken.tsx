@@ -0,0 +1,109 @@
+import React, {
+  forwardRef,
+  useContext,
+  useImperativeHandle,
+  useRef,
+} from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { TAG_FOCUS_KEYS } from "@/registry/new-york/tag-search-box/TagSearchBox";
+import { TagGroupToken } from "@/registry/new-york/tag-search-box/utils/TagExpression";
+import { TagSearchBoxMessageKey } from "@/registry/new-york/tag-search-box/utils/Locale";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+interface GroupTokenProps {
+  token: TagGroupToken;
+  /**
+   * 搜索框是否处于展开状态
+   */
+  active: boolean;
+  /**
+   * 是否通过键盘导航聚焦
+   */
+  focused?: boolean;
+  /**
+   * 是否可通过 Tab 键聚焦
+   */
+  tabbable?: boolean;
+  /**
+   * 触发标签相关事件
+   */
+  dispatchTagEvent?: (type: string, payload?: any) => void;
+}
+
+const LABELS: Record<TagGroupToken, TagSearchBoxMessageKey> = {
+  or: "groupOr",
+  "(": "groupOpen",
+  ")": "groupClose",
+};
+
+export interface GroupTokenRef {
+  focusTag: () => void;
+}
+
+/**
+ * 分组模式下标签之间的 OR 及括号
+ */
+export const GroupToken = forwardRef<GroupTokenRef, GroupTokenProps>(
+  ({ token, active, focused, tabbable, dispatchTagEvent }, ref) => {
+    const { t } = useContext(TagSearchBoxContext);
+    const contentRef = useRef<HTMLDivElement>(null);
+
+    useImperativeHandle(ref, () => ({
+      focusTag: () => contentRef.current?.focus(),
+    }));
+
+    const handleDelete = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      dispatchTagEvent?.("del");
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (!TAG_FOCUS_KEYS.includes(e.key)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      dispatchTagEvent?.("tag-key", e.key);
+    };
+
+    return (
+      <div
+        ref={contentRef}
+        tabIndex={tabbable ? 0 : -1}
+        role="group"
+        aria-roledescription={t("tag")}
+        aria-label={t(LABELS[token])}
+        className={cn(
+          "group relative inline-flex items-center gap-0.5",
+          "mt-[3px] mr-[3px] h-[26px] rounded-md px-1.5 text-xs",
+          "focus:outline-none focus:ring-1 focus:ring-ring",
+          focused && "ring-1 ring-ring",
+          token === "or"
+            ? "bg-primary/10 font-semibold text-primary"
+            : "text-base text-muted-foreground"
+        )}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        onFocus={() => dispatchTagEvent?.("tag-focus")}
+        onBlur={() => dispatchTagEvent?.("tag-blur")}
+      >
+        {token === "or" ? t("groupOr") : token}
+        {active && (
+          <button
+            tabIndex={-1}
+            aria-keyshortcuts="Delete"
+            className={cn(
+              "hidden rounded-sm opacity-70 hover:opacity-100 group-hover:inline-flex",
+              focused && "inline-flex"
+            )}
+            onClick={handleDelete}
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">{t("remove")}</span>
+          </button>
+        )}
+      </div>
+    );
+  }
+);
+
+GroupToken.displayName = "GroupToken";
@@ -0,0 +1,44 @@
+import React from "react";
+
+interface HighlightProps {
+  text: string;
+  /**
+   * 需要高亮的字符下标
+   */
+  indexes?: number[];
+}
+
+/**
+ * 高亮文本中匹配的字符，相邻字符合并为一段
+ */
+export const Highlight = ({ text, indexes = [] }: HighlightProps) => {
+  if (indexes.length <= 0) return <>{text}</>;
+
+  const matched = new Set(indexes);
+  const parts: { text: string; matched: boolean }[] = [];
+  text.split("").forEach((char, index) => {
+    const last = parts[parts.length - 1];
+    if (last && last.matched === matched.has(index)) {
+      last.text += char;
+    } else {
+      parts.push({ text: char, matched: matched.has(index) });
+    }
+  });
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.matched ? (
+          <mark
+            key={index}
+            className="bg-transparent font-semibold text-inherit"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
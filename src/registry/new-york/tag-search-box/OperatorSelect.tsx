@@ -0,0 +1,177 @@
+import React, { Component } from "react";
+import { DropdownMenu } from "@/components/ui/dropdown-menu";
+import { CommandItem, Command, CommandGroup } from "@/components/ui/command";
+import {
+  OPERATOR_TEXT,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator";
+import {
+  createActiveOptionNotifier,
+  ListboxProps,
+} from "@/registry/new-york/tag-search-box/utils/Listbox";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+import { cn } from "@/lib/utils";
+
+export interface OperatorSelectProps extends ListboxProps {
+  /**
+   * 可选运算符
+   */
+  operators: TagOperator[];
+  /**
+   * 当前选中的运算符
+   */
+  operator?: TagOperator;
+  /**
+   * 已输入的运算符文本
+   */
+  inputValue: string;
+  onSelect?: (operator: TagOperator) => void;
+  maxHeight: number;
+}
+export interface OperatorSelectState {
+  select: number;
+  lastInputValue: string;
+}
+
+const keys: Record<string, "tab" | "enter" | "up" | "down"> = {
+  "9": "tab",
+  "13": "enter",
+  "38": "up",
+  "40": "down",
+};
+
+export class OperatorSelect extends Component<
+  OperatorSelectProps,
+  OperatorSelectState
+> {
+  static contextType = TagSearchBoxContext;
+  declare context: React.ContextType<typeof TagSearchBoxContext>;
+
+  // 列表项元素，下标与 `select` 一致
+  private options: (HTMLDivElement | null)[] = [];
+  private notifyActiveOption = createActiveOptionNotifier();
+
+  constructor(props: OperatorSelectProps) {
+    super(props);
+    this.state = {
+      select: OperatorSelect.getInitialSelect(props),
+      lastInputValue: props.inputValue,
+    };
+  }
+
+  static getInitialSelect(props: OperatorSelectProps) {
+    const list = OperatorSelect.filter(props);
+    return Math.max(list.indexOf(props.operator!), 0);
+  }
+
+  static filter({ operators, inputValue }: OperatorSelectProps) {
+    return operators.filter(
+      (item) => OPERATOR_TEXT[item].indexOf(inputValue.trim()) === 0
+    );
+  }
+
+  static getDerivedStateFromProps(
+    props: OperatorSelectProps,
+    state: OperatorSelectState
+  ) {
+    if (state.lastInputValue !== props.inputValue) {
+      return {
+        select: OperatorSelect.getInitialSelect(props),
+        lastInputValue: props.inputValue,
+      };
+    }
+    return null;
+  }
+
+  componentDidMount() {
+    this.updateActiveOption();
+  }
+
+  componentDidUpdate() {
+    this.updateActiveOption();
+  }
+
+  componentWillUnmount() {
+    this.props.onActiveOptionChange?.(undefined);
+  }
+
+  // 列表项 id 由 cmdk 生成，渲染后从元素上读取
+  updateActiveOption() {
+    const { select } = this.state;
+    this.notifyActiveOption(this.options[select]?.id, this.props);
+  }
+
+  getUseableList() {
+    return OperatorSelect.filter(this.props);
+  }
+
+  move = (step: number) => {
+    const list = this.getUseableList();
+    if (list.length <= 0) return;
+    this.setState((prevState) => ({
+      select: (prevState.select + step + list.length) % list.length,
+    }));
+  };
+
+  handleKeyDown = (keyCode: string) => {
+    if (!keys[keyCode]) return;
+
+    const { onSelect } = this.props;
+    const { select } = this.state;
+    const list = this.getUseableList();
+
+    switch (keys[keyCode]) {
+      case "enter":
+      case "tab":
+        if (select < 0 || select >= list.length) break;
+        onSelect?.(list[select]);
+        return false;
+      case "up":
+        this.move(-1);
+        break;
+      case "down":
+        this.move(1);
+        break;
+    }
+  };
+
+  render() {
+    const { maxHeight, onSelect, listboxId } = this.props;
+    const { select } = this.state;
+    const { t } = this.context;
+
+    const list = this.getUseableList().map((item, index) => (
+      <CommandItem
+        key={item}
+        ref={(element) => {
+          this.options[index] = element;
+        }}
+        value={item}
+        onSelect={() => onSelect?.(item)}
+        className={cn(
+          "flex cursor-pointer items-center rounded-sm px-2 py-1.5 text-sm outline-none",
+          "hover:bg-accent/50",
+          "aria-selected:bg-accent aria-selected:text-accent-foreground"
+        )}
+      >
+        {OPERATOR_TEXT[item]}
+      </CommandItem>
+    ));
+
+    if (list.length === 0) return null;
+
+    return (
+      <DropdownMenu>
+        {/* 高亮项由键盘操作控制，同步至 cmdk 以设置列表项的 aria-selected */}
+        <Command
+          style={{ maxHeight: maxHeight }}
+          value={this.getUseableList()[select] ?? ""}
+        >
+          <div role="listbox" id={listboxId} aria-label={t("operators")}>
+            <CommandGroup>{list}</CommandGroup>
+          </div>
+        </Command>
+      </DropdownMenu>
+    );
+  }
+}
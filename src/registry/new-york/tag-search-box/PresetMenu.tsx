@@ -0,0 +1,163 @@
+import { useContext, useState } from "react";
+import { Bookmark, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { SearchHistoryTag } from "@/registry/new-york/tag-search-box/utils/SearchHistory";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+export interface TagSearchBoxPreset {
+  /**
+   * 预设唯一标识，未提供时使用名称
+   */
+  key?: string;
+  /**
+   * 预设名称
+   */
+  name: string;
+  /**
+   * 预设包含的标签，属性仅记录 key，可直接序列化为 JSON 保存或分享
+   */
+  tags: SearchHistoryTag[];
+}
+
+interface PresetMenuProps {
+  presets: TagSearchBoxPreset[];
+  /**
+   * 是否可将当前标签保存为预设
+   */
+  canSave: boolean;
+  onSave?: (name: string) => void;
+  onApply: (preset: TagSearchBoxPreset) => void;
+  onDelete?: (preset: TagSearchBoxPreset) => void;
+}
+
+/**
+ * 预设菜单，用于应用已有预设或将当前标签保存为预设
+ */
+export const PresetMenu = ({
+  presets,
+  canSave,
+  onSave,
+  onApply,
+  onDelete,
+}: PresetMenuProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    const presetName = name.trim();
+    if (!presetName || !canSave) return;
+    onSave?.(presetName);
+    setName("");
+    setOpen(false);
+  };
+
+  const handleApply = (preset: TagSearchBoxPreset) => {
+    onApply(preset);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 p-0 hover:bg-muted rounded-none"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Bookmark className="h-4 w-4" />
+                <span className="sr-only">{t("presets")}</span>
+              </Button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs">
+            {t("presets")}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      <PopoverContent
+        align="end"
+        className="w-64 p-1 ignore-outside-click"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {presets.length > 0 ? (
+          <div className="max-h-60 overflow-y-auto">
+            {presets.map((preset) => (
+              <div
+                key={preset.key ?? preset.name}
+                className={cn(
+                  "group flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                  "hover:bg-accent hover:text-accent-foreground"
+                )}
+                onClick={() => handleApply(preset)}
+              >
+                <span className="flex-1 truncate" title={preset.name}>
+                  {preset.name}
+                </span>
+                {onDelete && (
+                  <button
+                    className="hidden rounded-sm opacity-70 hover:opacity-100 group-hover:inline-flex"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(preset);
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">{t("deletePreset")}</span>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="px-2 py-3 text-center text-sm text-muted-foreground">
+            {t("noPresets")}
+          </div>
+        )}
+
+        {onSave && (
+          <div className="mt-1 flex items-center gap-1 border-t p-1 pt-2">
+            <Input
+              value={name}
+              placeholder={t("presetNamePlaceholder")}
+              className="h-7 text-sm"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+            />
+            <Button
+              size="sm"
+              className="h-7 font-normal text-sm"
+              disabled={!canSave || !name.trim()}
+              onClick={handleSave}
+            >
+              {t("savePreset")}
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
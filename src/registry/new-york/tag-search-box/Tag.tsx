@@ -1,16 +1,26 @@
 import React, { Component, createRef } from 'react';
 import { TagInput } from '@/registry/new-york/tag-search-box/TagInput';
-import { FocusPosType } from '@/registry/new-york/tag-search-box/TagSearchBox';
+import { FocusPosType, TAG_FOCUS_KEYS } from '@/registry/new-york/tag-search-box/TagSearchBox';
 import { X } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { Value, AttributeValue } from '@/registry/new-york/tag-search-box/AttributeSelect';
+import { getAttrPrefix, TagOperator } from '@/registry/new-york/tag-search-box/utils/Operator';
+import { TagSearchBoxContext } from '@/registry/new-york/tag-search-box/TagSearchboxContext';
 
 export interface TagValue {
   /**
    * 标签属性
    */
   attr?: AttributeValue;
+  /**
+   * 比较运算符，为空时等同于 `=`
+   */
+  operator?: TagOperator;
+  /**
+   * 是否取反，即排除匹配的值
+   */
+  negated?: boolean;
   /**
    * 标签属性值
    */
@@ -22,6 +32,14 @@ interface TagProps {
    * 标签属性
    */
   attr?: AttributeValue;
+  /**
+   * 比较运算符
+   */
+  operator?: TagOperator;
+  /**
+   * 是否取反
+   */
+  negated?: boolean;
   /**
    * 标签属性值
    */
@@ -46,6 +64,14 @@ interface TagProps {
    * 搜索框是否处于展开状态
    */
   active: boolean;
+  /**
+   * 校验失败的错误信息，存在时标签标红展示
+   */
+  invalid?: string | null;
+  /**
+   * 是否可通过 Tab 键聚焦，同一时间仅有一个标签可聚焦
+   */
+  tabbable?: boolean;
 }
 
 interface TagRef {
@@ -73,6 +99,9 @@ const keys: Record<string, string> = {
 };
 
 export class Tag extends Component<TagProps, { inEditing: boolean }> implements TagRef {
+  static contextType = TagSearchBoxContext;
+  declare context: React.ContextType<typeof TagSearchBoxContext>;
+
   private contentRef = createRef<HTMLDivElement>();
   private inputInsideRef: any = null;
   private inputRef: any = null;
@@ -94,6 +123,11 @@ export class Tag extends Component<TagProps, { inEditing: boolean }> implements
     this.props.dispatchTagEvent?.('del');
   };
 
+  handleNegate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    this.props.dispatchTagEvent?.('negate');
+  };
+
   handleKeyDown = (e: React.KeyboardEvent) => {
     if (!keys[e.keyCode]) return;
 
@@ -110,8 +144,26 @@ export class Tag extends Component<TagProps, { inEditing: boolean }> implements
     }
   };
 
+  // 标签自身聚焦时的键盘导航，忽略编辑输入框冒泡的事件
+  handleContentKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || !TAG_FOCUS_KEYS.includes(e.key)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.props.dispatchTagEvent?.('tag-key', e.key);
+  };
+
+  handleContentFocus = (e: React.FocusEvent) => {
+    if (e.target !== e.currentTarget) return;
+    this.props.dispatchTagEvent?.('tag-focus');
+  };
+
+  handleContentBlur = (e: React.FocusEvent) => {
+    if (e.target !== e.currentTarget) return;
+    this.props.dispatchTagEvent?.('tag-blur');
+  };
+
   focusTag = () => {
-    this.inputInsideRef?.focusInput();
+    this.contentRef.current?.focus();
   };
 
   focusInput = () => {
@@ -148,8 +200,8 @@ export class Tag extends Component<TagProps, { inEditing: boolean }> implements
   };
 
   getInfo = () => {
-    const { attr, values } = this.props;
-    const info = { attr, values };
+    const { attr, operator, negated, values } = this.props;
+    const info = { attr, operator, negated, values };
     return info;
   };
 
@@ -169,82 +221,147 @@ export class Tag extends Component<TagProps, { inEditing: boolean }> implements
   };
 
   render() {
-    const { attr, values, dispatchTagEvent, attributes, focused, maxWidth, active } = this.props;
+    const { attr, operator, negated, values, dispatchTagEvent, attributes, focused, maxWidth, active, invalid, tabbable } =
+      this.props;
     const { inEditing } = this.state;
+    const { t } = this.context;
 
-    const formattedAttrStr = attr && attr.name ? `${attr.name}: ` : '';
+    const formattedAttrStr = attr && attr.name ? getAttrPrefix(attr.name, operator) : '';
     const valueStr = (values || []).map(item => item.name).join(' | ');
     const removeable = attr && 'removeable' in attr ? attr.removeable : true;
+    // 标签内包含按钮及编辑输入框，整体作为带名称的分组
+    const label = [negated ? t('negation') : '', formattedAttrStr, valueStr, invalid ? `(${invalid})` : '']
+      .filter(Boolean)
+      .join(' ');
 
-    return (
-      <div onClick={e => this.handleTagClick(e)} tabIndex={0} role="button" ref={this.contentRef}>
-        <div
-          className={cn(
-            'group relative inline-flex items-center gap-1',
-            'rounded-md border border-input bg-background px-2 py-1',
-            'text-sm transition-colors',
-            'hover:bg-accent hover:text-accent-foreground',
-            'cursor-text',
-            'focus:outline-none focus:ring-1 focus:ring-ring focus:ring-offset-1',
-            'mt-[3px] mr-[3px]',
-          )}
-          style={{
-            display: inEditing ? 'none' : undefined,
-          }}
-        >
-          {attr && (
-            <span
-              className="text-muted-foreground/80 text-xs"
-              onClick={e => {
-                e.stopPropagation();
-                this.handleTagClick(e, 'attr');
-              }}
-            >
-              {formattedAttrStr}
-            </span>
-          )}
+    const chip = (
+      <div
+        className={cn(
+          'group relative inline-flex items-center gap-1',
+          'rounded-md border border-input bg-background px-2 py-1',
+          'text-sm transition-colors',
+          'hover:bg-accent hover:text-accent-foreground',
+          'cursor-text',
+          'focus:outline-none focus:ring-1 focus:ring-ring focus:ring-offset-1',
+          'mt-[3px] mr-[3px]',
+          invalid && 'border-destructive bg-destructive/5 text-destructive',
+          focused === FocusPosType.TAG && 'ring-1 ring-ring ring-offset-1',
+        )}
+        style={{
+          display: inEditing ? 'none' : undefined,
+        }}
+      >
+        {attr && (active || negated) && (
+          <button
+            className={cn(
+              'rounded-sm px-1 text-[10px] font-semibold leading-4',
+              'focus:outline-none focus:ring-1 focus:ring-ring',
+              'disabled:pointer-events-none',
+              negated
+                ? 'bg-destructive/10 text-destructive'
+                : 'hidden text-muted-foreground hover:bg-muted group-hover:inline-block',
+              // 键盘聚焦时同样显示，可按 `!` 切换
+              !negated && focused === FocusPosType.TAG && 'inline-block',
+            )}
+            onClick={this.handleNegate}
+            disabled={!active}
+            tabIndex={-1}
+            aria-pressed={negated}
+            aria-keyshortcuts="!"
+            title={negated ? t('includeMatching') : t('excludeMatching')}
+          >
+            {t('negation')}
+          </button>
+        )}
+        {attr?.icon && (
+          <span className="flex shrink-0 items-center text-muted-foreground [&_svg]:h-3 [&_svg]:w-3">
+            {attr.icon}
+          </span>
+        )}
+        {attr && (
           <span
-            className="font-medium text-xs"
+            className={cn(
+              'text-muted-foreground/80 text-xs',
+              negated && 'line-through decoration-destructive',
+            )}
             onClick={e => {
               e.stopPropagation();
-              this.handleTagClick(e, 'value');
+              this.handleTagClick(e, 'attr');
             }}
           >
-            {valueStr}
+            {formattedAttrStr}
           </span>
-          {removeable && (
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <button
-                    className={cn(
-                      'ml-1 rounded-sm opacity-70 ring-offset-background',
-                      'transition-opacity hover:opacity-100',
-                      'focus:outline-none focus:ring-1 focus:ring-ring focus:ring-offset-1',
-                      'disabled:pointer-events-none disabled:opacity-50',
-                    )}
-                    onClick={this.handleDelete}
-                    disabled={!active}
-                  >
-                    <X className="h-3 w-3" />
-                    <span className="sr-only">Remove tag</span>
-                  </button>
-                </TooltipTrigger>
-                {active && (
-                  <TooltipContent side="bottom" className="text-xs">
-                    <p>Click to remove tag</p>
-                  </TooltipContent>
-                )}
-              </Tooltip>
-            </TooltipProvider>
-          )}
-        </div>
+        )}
+        <span
+          className="font-medium text-xs"
+          onClick={e => {
+            e.stopPropagation();
+            this.handleTagClick(e, 'value');
+          }}
+        >
+          {valueStr}
+        </span>
+        {removeable && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  className={cn(
+                    'ml-1 rounded-sm opacity-70 ring-offset-background',
+                    'transition-opacity hover:opacity-100',
+                    'focus:outline-none focus:ring-1 focus:ring-ring focus:ring-offset-1',
+                    'disabled:pointer-events-none disabled:opacity-50',
+                  )}
+                  onClick={this.handleDelete}
+                  disabled={!active}
+                  tabIndex={-1}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">{t('removeTag')}</span>
+                </button>
+              </TooltipTrigger>
+              {active && (
+                <TooltipContent side="bottom" className="text-xs">
+                  <p>{t('clickToRemoveTag')}</p>
+                </TooltipContent>
+              )}
+            </Tooltip>
+          </TooltipProvider>
+        )}
+      </div>
+    );
+
+    return (
+      <div
+        onClick={e => this.handleTagClick(e)}
+        onKeyDown={this.handleContentKeyDown}
+        onFocus={this.handleContentFocus}
+        onBlur={this.handleContentBlur}
+        tabIndex={tabbable ? 0 : -1}
+        role="group"
+        aria-roledescription={t('tag')}
+        aria-label={label}
+        className="outline-none"
+        ref={this.contentRef}
+      >
+        {invalid ? (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>{chip}</TooltipTrigger>
+              <TooltipContent side="bottom" className="text-xs">
+                <p>{invalid}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        ) : (
+          chip
+        )}
 
         {active && (
           <TooltipProvider>
             <Tooltip>
               <TooltipContent side="bottom" className="text-xs">
-                <p>Click to modify. Press Enter to finish.</p>
+                <p>{t('clickToModify')}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
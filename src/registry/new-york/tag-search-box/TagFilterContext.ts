@@ -0,0 +1,25 @@
+import { createContext, MutableRefObject } from "react";
+import {
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { Translate } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 点击筛选时操作的搜索框，由 `TagFilterProvider` 内的 `TagSearchBox` 注册
+ */
+export interface TagFilterTarget {
+  attributes: AttributeValue[];
+  /**
+   * 按属性值切换筛选标签，移除整个标签时同点击删除按钮
+   */
+  toggleFilter: (
+    attr: AttributeValue,
+    value: Value,
+    negated: boolean
+  ) => Promise<void>;
+  t: Translate;
+}
+
+export const TagFilterContext =
+  createContext<MutableRefObject<TagFilterTarget | null> | null>(null);
@@ -2,9 +2,24 @@ import React, { Component, createRef } from "react";
 import {
   AttributeSelect,
   AttributeValue,
+  Value,
 } from "@/registry/new-york/tag-search-box/AttributeSelect.tsx";
 import { ValueSelect } from "@/registry/new-york/tag-search-box/valueselect/ValueSelect.tsx";
+import { OperatorSelect } from "@/registry/new-york/tag-search-box/OperatorSelect.tsx";
+import {
+  getAttrPrefix,
+  matchAttrPrefix,
+  NEGATION_PREFIX,
+  stripNegation,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator.ts";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
 import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext.ts";
+import { TagGroupToken } from "@/registry/new-york/tag-search-box/utils/TagExpression";
+import {
+  parseInputTag,
+  validateInputTag,
+} from "@/registry/new-york/tag-search-box/utils/InputTag";
 import { cn } from "@/lib/utils";
 
 import {
@@ -25,7 +40,16 @@ const keys: Record<string | number, string> = {
   40: "down",
 };
 
+const GROUP_KEYS: Record<string, TagGroupToken> = {
+  "|": "or",
+  "(": "(",
+  ")": ")",
+};
+
 const INPUT_MIN_SIZE = 0;
+
+// Counter for the ids linking each input to its listbox
+let inputId = 0;
 const SELECT_MIN_HEIGHT = 242;
 
 interface TagInputProps {
@@ -72,10 +96,20 @@ interface TagInputState {
   inputValue: string;
   fullInputValue: string;
   attribute: AttributeValue | null;
-  values: any[];
+  operator?: TagOperator;
+  negated: boolean;
+  values: Value[];
   showAttrSelect: boolean;
+  showOperatorSelect: boolean;
   showValueSelect: boolean;
   valueSelectOffset: number;
+  // Left offset of the attribute placeholder, -1 when hidden
+  placeholderOffset: number;
+  // Message of the failed validation blocking the tag
+  validationError: string | null;
+  validating: boolean;
+  // Id of the highlighted option, exposed through aria-activedescendant
+  activeOptionId?: string;
 }
 
 class TagInput extends Component<TagInputProps, TagInputState> {
@@ -85,7 +119,11 @@ class TagInput extends Component<TagInputProps, TagInputState> {
   private wrapperRef = createRef<HTMLDivElement>();
   private inputRef = createRef<HTMLInputElement & HTMLTextAreaElement>();
   private inputMirrorRef = createRef<HTMLSpanElement>();
+  private validationId = 0;
+  private listboxId = `tag-search-box-listbox-${++inputId}`;
+  private errorId = `${this.listboxId}-error`;
   private attrSelectRef = createRef<any>();
+  private operatorSelectRef = createRef<any>();
   private valueSelectRef = createRef<any>();
 
   constructor(props: TagInputProps) {
@@ -95,28 +133,36 @@ class TagInput extends Component<TagInputProps, TagInputState> {
       inputValue: "",
       fullInputValue: "",
       attribute: null,
+      negated: false,
       values: [],
       showAttrSelect: false,
+      showOperatorSelect: false,
       showValueSelect: false,
       valueSelectOffset: 0,
+      placeholderOffset: -1,
+      validationError: null,
+      validating: false,
     };
   }
 
   // Helper function to get attribute string and value string
   private getAttrStrAndValueStr = (str: string) => {
-    let attrStr = str,
-      valueStr = "",
-      pos = -1;
-
-    for (let i = 0; i < this.props.attributes.length; ++i) {
-      if (str.indexOf(this.props.attributes[i].name + ":") === 0) {
-        attrStr = this.props.attributes[i].name;
-        valueStr = str.substr(attrStr.length + 1);
-        pos = this.props.attributes[i].name.length;
-      }
+    const match = matchAttrPrefix(str, this.props.attributes);
+
+    if (!match.attribute) {
+      return {
+        ...match,
+        attrStr: stripNegation(str),
+        valueStr: "",
+        operatorStr: "",
+      };
     }
 
-    return { attrStr, valueStr, pos };
+    return {
+      ...match,
+      attrStr: match.attribute.name,
+      operatorStr: match.pendingOperator ? str.substring(match.pos + 1) : "",
+    };
   };
 
   // Refresh selection component display
@@ -125,11 +171,26 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     const input = this.inputRef.current;
     const start = input?.selectionStart ?? 0;
     const end = input?.selectionEnd ?? 0;
-    const pos = this.getAttrStrAndValueStr(inputValue).pos;
+    const { pos, valuePos, pendingOperator } =
+      this.getAttrStrAndValueStr(inputValue);
 
     if (pos < 0 || start <= pos) {
       this.setState({
         showAttrSelect: true,
+        showOperatorSelect: false,
+        showValueSelect: false,
+      });
+      return;
+    }
+
+    // Operator part is selected or still being typed
+    if (
+      attribute?.operators?.length &&
+      (pendingOperator || start <= valuePos)
+    ) {
+      this.setState({
+        showAttrSelect: false,
+        showOperatorSelect: true,
         showValueSelect: false,
       });
       return;
@@ -138,6 +199,7 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     if (attribute && end > pos) {
       this.setState({
         showAttrSelect: false,
+        showOperatorSelect: false,
         showValueSelect: true,
       });
     }
@@ -164,11 +226,11 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     input?.focus();
     const value = this.state.inputValue;
 
-    let pos = this.getAttrStrAndValueStr(value).pos;
-    if (pos < 0) pos = -2;
+    let pos = this.getAttrStrAndValueStr(value).valuePos;
+    if (pos < 0) pos = -1;
 
     setTimeout(() => {
-      input?.setSelectionRange(pos + 2, value.length);
+      input?.setSelectionRange(pos + 1, value.length);
       this.refreshShow();
     }, 0);
   };
@@ -187,40 +249,49 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     }, 0);
   };
 
+  // Match attribute prefix, update value select offset and normalize spaces
+  private normalizeInputValue = (value: string) => {
+    const match = matchAttrPrefix(value, this.props.attributes);
+    const { attribute, operator, negated, valueStr, pendingOperator } = match;
+    const mirror = this.inputMirrorRef.current;
+
+    if (!attribute || pendingOperator) {
+      return { ...match, value };
+    }
+
+    const prefix = getAttrPrefix(attribute.name, operator, negated);
+    if (mirror) {
+      mirror.innerText = prefix;
+      let width = mirror.clientWidth;
+      if (this.props.inputOffset) width += this.props.inputOffset;
+      this.setState({ valueSelectOffset: width });
+    }
+
+    // Handle leading spaces
+    if (valueStr.replace(/^\s+/, "").length > 0) {
+      value = prefix + valueStr.replace(/^\s+/, "");
+    } else {
+      value = prefix.trimEnd() + valueStr;
+    }
+
+    return { ...match, value };
+  };
+
   // Set input value
   public setInputValue = (value: string, callback?: () => void) => {
     if (this.props.type === "edit" && value.trim().length <= 0) {
       return this.props.dispatchTagEvent("del", "edit");
     }
 
-    let attribute = null,
-      valueStr = value;
-    const mirror = this.inputMirrorRef.current;
-
-    // Check if attribute exists
-    for (let i = 0; i < this.props.attributes.length; ++i) {
-      if (
-        value.indexOf(this.props.attributes[i].name + ":") === 0 ||
-        value.indexOf(this.props.attributes[i].name + "：") === 0
-      ) {
-        attribute = this.props.attributes[i];
-        valueStr = value.substr(this.props.attributes[i].name.length + 1);
-
-        if (mirror) {
-          mirror.innerText = attribute.name + ": ";
-          let width = mirror.clientWidth;
-          if (this.props.inputOffset) width += this.props.inputOffset;
-          this.setState({ valueSelectOffset: width });
-        }
-        break;
-      }
-    }
+    const normalized = this.normalizeInputValue(value);
+    const { attribute, operator, negated, valueStr, pendingOperator } =
+      normalized;
+    value = normalized.value;
 
-    // Handle leading spaces
-    if (attribute && valueStr.replace(/^\s+/, "").length > 0) {
-      value = attribute.name + ": " + valueStr.replace(/^\s+/, "");
-    } else if (attribute) {
-      value = attribute.name + ":" + valueStr;
+    // Editing the input discards pending validation
+    this.validationId++;
+    if (this.state.validationError || this.state.validating) {
+      this.setState({ validationError: null, validating: false });
     }
 
     if (attribute !== this.state.attribute) {
@@ -228,19 +299,26 @@ class TagInput extends Component<TagInputProps, TagInputState> {
         values: valueStr.split("|").map((item) => ({ name: item.trim() })),
       });
     }
-    this.setState({ attribute }, this.refreshShow);
+    this.setState({ attribute, operator, negated }, this.refreshShow);
 
-    if (this.props.type === "edit") {
-      this.props.dispatchTagEvent("editing", { attr: attribute });
+    if (this.props.type === "edit" && !pendingOperator) {
+      this.props.dispatchTagEvent("editing", {
+        attr: attribute,
+        operator,
+        negated,
+      });
     }
 
-    mirror!.innerText = value;
-    const width = Math.max(mirror!.clientWidth, INPUT_MIN_SIZE);
+    const { width, placeholderOffset } = this.measureInput(
+      value,
+      pendingOperator ? undefined : this.getPlaceholder(attribute, valueStr)
+    );
     this.setState(
       {
         inputValue: value,
         fullInputValue: value,
         inputWidth: width,
+        placeholderOffset,
       },
       () => {
         callback && callback();
@@ -250,48 +328,56 @@ class TagInput extends Component<TagInputProps, TagInputState> {
 
   // Set full input value (including IME process)
   private setFullInputValue = (value: string) => {
-    let attribute = null,
-      valueStr = value;
     const mirror = this.inputMirrorRef.current;
-
-    for (let i = 0; i < this.props.attributes.length; ++i) {
-      if (
-        value.indexOf(this.props.attributes[i].name + ":") === 0 ||
-        value.indexOf(this.props.attributes[i].name + "：") === 0
-      ) {
-        attribute = this.props.attributes[i];
-        valueStr = value.substr(this.props.attributes[i].name.length + 1);
-
-        if (mirror) {
-          mirror.innerText = attribute.name + ": ";
-          let width = mirror.clientWidth;
-          if (this.props.inputOffset) width += this.props.inputOffset;
-          this.setState({ valueSelectOffset: width });
-        }
-        break;
-      }
-    }
-
-    if (attribute && valueStr.replace(/^\s+/, "").length > 0) {
-      value = attribute.name + ": " + valueStr.replace(/^\s+/, "");
-    } else if (attribute) {
-      value = attribute.name + ":" + valueStr;
-    }
+    const { attribute, valueStr, pendingOperator, ...normalized } =
+      this.normalizeInputValue(value);
+    value = normalized.value;
 
     if (mirror) {
-      mirror.innerText = value;
-      const width = Math.max(mirror.clientWidth, INPUT_MIN_SIZE);
+      const { width, placeholderOffset } = this.measureInput(
+        value,
+        pendingOperator ? undefined : this.getPlaceholder(attribute, valueStr)
+      );
       this.setState({
         fullInputValue: value,
         inputWidth: width,
+        placeholderOffset,
       });
     }
   };
 
+  // The attribute hint replaces the placeholder until a value is typed
+  private getPlaceholder = (
+    attribute: AttributeValue | null,
+    valueStr: string
+  ) => {
+    if (this.props.type === "edit" || !attribute?.placeholder) return;
+    if (valueStr.trim().length > 0) return;
+    return attribute.placeholder;
+  };
+
+  // Measure input width, leaving room for the placeholder after the value
+  private measureInput = (value: string, placeholder?: string) => {
+    const mirror = this.inputMirrorRef.current!;
+    mirror.innerText = value;
+    const valueWidth = mirror.clientWidth;
+    if (!placeholder) {
+      return {
+        width: Math.max(valueWidth, INPUT_MIN_SIZE),
+        placeholderOffset: -1,
+      };
+    }
+
+    mirror.innerText = `${value} ${placeholder}`;
+    const width = Math.max(mirror.clientWidth, INPUT_MIN_SIZE);
+    mirror.innerText = value;
+    return { width, placeholderOffset: valueWidth };
+  };
+
   // Reset input
   public resetInput = (callback?: () => void) => {
     this.setInputValue("", callback);
-    this.setState({ inputWidth: INPUT_MIN_SIZE });
+    this.setState({ inputWidth: INPUT_MIN_SIZE, placeholderOffset: -1 });
   };
 
   // Get input value
@@ -301,38 +387,64 @@ class TagInput extends Component<TagInputProps, TagInputState> {
 
   // Add tag by input value
   public addTagByInputValue = () => {
-    const { attribute, values, inputValue } = this.state;
+    const { values, inputValue } = this.state;
     const type = this.props.type || "add";
 
-    if (
-      attribute &&
-      this.props.attributes.filter((item) => item.key === attribute.key)
-        .length > 0
-    ) {
-      if (values.length <= 0) {
-        return false;
-      }
-      this.props.dispatchTagEvent(type, { attr: attribute, values });
+    // Values picked in the value select replace the typed ones
+    const tag = parseInputTag(inputValue, this.props.attributes, values);
+    if (!tag) {
+      return false;
+    }
+
+    if (tag.attr) {
+      this.dispatchTag(type, tag, this.handleTagDispatched);
     } else {
-      if (inputValue.trim().length <= 0) {
-        return false;
-      }
-      const list = inputValue
-        .split("|")
-        .filter((item) => item.trim().length > 0)
-        .map((item) => ({ name: item.trim() }));
-      this.props.dispatchTagEvent(type, { attr: null, values: list });
+      this.props.dispatchTagEvent(type, { attr: null, values: tag.values });
+      this.handleTagDispatched();
     }
+    return true;
+  };
 
+  private handleTagDispatched = () => {
     this.setState({
       showAttrSelect: false,
+      showOperatorSelect: false,
       showValueSelect: false,
     });
 
     if (this.props.type !== "edit") {
       this.resetInput();
     }
-    return true;
+  };
+
+  // Validate values before dispatching the tag, invalid values are either
+  // blocked with an inline error or kept as an invalid tag
+  private dispatchTag = (
+    type: string,
+    payload: TagValue,
+    callback?: () => void
+  ) => {
+    const validationId = ++this.validationId;
+    const handleResult = (error: string | null) => {
+      // Input changed while validating
+      if (validationId !== this.validationId) return;
+
+      this.setState({ validating: false });
+      if (error && this.context.validationMode !== "mark") {
+        this.setState({ validationError: error });
+        return;
+      }
+      this.props.dispatchTagEvent(type, { ...payload, _invalid: error });
+      callback?.();
+    };
+
+    const result = validateInputTag(payload, this.context.t);
+    if (result instanceof Promise) {
+      this.setState({ validating: true });
+      result.then(handleResult);
+    } else {
+      handleResult(result);
+    }
   };
 
   // Event handlers
@@ -350,8 +462,13 @@ class TagInput extends Component<TagInputProps, TagInputState> {
 
   private handleAttrSelect = (attr: any) => {
     if (attr && attr.key) {
-      const str = attr.name + ": ";
+      // Attributes with operators go on to the operator select
       const { inputValue } = this.state;
+      // Keep the typed negation prefix
+      const prefix =
+        stripNegation(inputValue) !== inputValue ? NEGATION_PREFIX : "";
+      const str =
+        prefix + (attr.operators?.length ? attr.name + " " : attr.name + ": ");
 
       if (inputValue.indexOf(str) >= 0) {
         this.selectValue();
@@ -363,36 +480,59 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     this.focusInput();
   };
 
-  private handleValueChange = (values: any[]) => {
+  private handleOperatorSelect = (operator: TagOperator) => {
+    const { attribute, negated, inputValue } = this.state;
+    if (!attribute) return;
+
+    const { valueStr } = this.getAttrStrAndValueStr(inputValue);
+    this.setInputValue(
+      getAttrPrefix(attribute.name, operator, negated) +
+        valueStr.replace(/^\s+/, "")
+    );
+    this.focusInput();
+  };
+
+  private handleValueChange = (values: Value[]) => {
+    const { attribute, operator, negated } = this.state;
     this.setState({ values });
     this.setInputValue(
-      (this.state.attribute?.name ?? "") +
-        ": " +
+      getAttrPrefix(attribute?.name ?? "", operator, negated) +
         values.map((item) => item.name).join(" | ")
     );
     this.focusInput();
   };
 
-  private handleValueSelect = (values: any[]) => {
+  private handleValueSelect = (values: Value[]) => {
+    const { attribute, operator, negated } = this.state;
     this.setState({ values });
 
     if (values.length <= 0) {
-      this.setInputValue((this.state.attribute?.name ?? "") + ": ");
+      this.setInputValue(
+        getAttrPrefix(attribute?.name ?? "", operator, negated)
+      );
       return;
     }
 
-    if (values.length > 0 && this.state.attribute) {
-      const key = this.state.attribute.key;
+    if (values.length > 0 && attribute) {
+      const key = attribute.key;
       if (this.props.attributes.filter((item) => item.key === key).length > 0) {
         const type = this.props.type || "add";
-        this.props.dispatchTagEvent(type, {
-          attr: this.state.attribute,
-          values,
-        });
+        this.dispatchTag(
+          type,
+          { attr: attribute, operator, negated, values },
+          this.resetAddInput
+        );
+      } else {
+        this.resetAddInput();
       }
       this.focusInput();
+      return;
     }
 
+    this.resetAddInput();
+  };
+
+  private resetAddInput = () => {
     if (this.props.type !== "edit") {
       this.resetInput();
     }
@@ -462,6 +602,18 @@ class TagInput extends Component<TagInputProps, TagInputState> {
   };
 
   private handleKeyDown = (e: React.KeyboardEvent) => {
+    // Insert group separators from an empty input in group mode
+    if (
+      this.context.groupMode &&
+      this.props.type !== "edit" &&
+      !this.state.inputValue &&
+      GROUP_KEYS[e.key]
+    ) {
+      e.preventDefault();
+      this.props.dispatchTagEvent("group", GROUP_KEYS[e.key]);
+      return;
+    }
+
     if (!keys[e.keyCode]) return;
 
     if (this.props.hidden) {
@@ -472,6 +624,19 @@ class TagInput extends Component<TagInputProps, TagInputState> {
 
     if (keys[e.keyCode] === "backspace" && inputValue.length > 0) return;
 
+    // Move focus onto the tags from the start of the input
+    const input = this.inputRef.current;
+    if (
+      keys[e.keyCode] === "left" &&
+      this.props.type !== "edit" &&
+      input?.selectionStart === 0 &&
+      input?.selectionEnd === 0
+    ) {
+      e.preventDefault();
+      this.props.dispatchTagEvent("tag-key", "ArrowLeft");
+      return;
+    }
+
     if (
       (keys[e.keyCode] === "left" || keys[e.keyCode] === "right") &&
       inputValue.length > 0
@@ -493,6 +658,11 @@ class TagInput extends Component<TagInputProps, TagInputState> {
       if (this.attrSelectRef.current.handleKeyDown(e.keyCode) === false) return;
     }
 
+    if (this.operatorSelectRef.current) {
+      if (this.operatorSelectRef.current.handleKeyDown(e.keyCode) === false)
+        return;
+    }
+
     if (this.valueSelectRef.current) {
       this.valueSelectRef.current.handleKeyDownForRenderMode(e.key);
       if (this.valueSelectRef.current.handleKeyDown(e.keyCode) === false)
@@ -518,12 +688,17 @@ class TagInput extends Component<TagInputProps, TagInputState> {
 
   public setInfo = (info: any, callback?: () => void) => {
     const attribute = info.attr;
+    const operator = info.operator;
+    const negated = !!info.negated;
     const values = info.values || [];
 
-    this.setState({ attribute, values }, () => {
+    this.setState({ attribute, operator, negated, values }, () => {
       if (attribute) {
         const valueStr = values.map((item: any) => item.name).join(" | ");
-        this.setInputValue(attribute.name + ": " + valueStr, callback);
+        this.setInputValue(
+          getAttrPrefix(attribute.name, operator, negated) + valueStr,
+          callback
+        );
       } else {
         const valueStr = values.map((item: any) => item.name).join(" | ");
         this.setInputValue(valueStr, callback);
@@ -531,6 +706,10 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     });
   };
 
+  handleActiveOptionChange = (activeOptionId: string | undefined) => {
+    this.setState({ activeOptionId });
+  };
+
   render() {
     const { active, hidden, maxWidth, type, isFocused, attributes } =
       this.props;
@@ -540,11 +719,19 @@ class TagInput extends Component<TagInputProps, TagInputState> {
       inputValue,
       fullInputValue,
       showAttrSelect,
+      showOperatorSelect,
       showValueSelect,
       attribute,
+      operator,
       valueSelectOffset,
+      placeholderOffset,
+      validationError,
+      validating,
+      activeOptionId,
     } = this.state;
-    const { valueStr, attrStr } = this.getAttrStrAndValueStr(inputValue);
+    const { valueStr, attrStr, operatorStr } =
+      this.getAttrStrAndValueStr(inputValue);
+    const { t } = this.context;
 
     let maxHeight = SELECT_MIN_HEIGHT;
     try {
@@ -561,7 +748,22 @@ class TagInput extends Component<TagInputProps, TagInputState> {
     const isOpen =
       active &&
       isFocused &&
-      (showAttrSelect || (showValueSelect && !!attribute && !!attribute.type));
+      (showAttrSelect ||
+        (showOperatorSelect && !!attribute?.operators?.length) ||
+        (showValueSelect && !!attribute && !!attribute.type));
+
+    // Combobox semantics shared by the add and edit inputs
+    const comboboxProps = {
+      role: "combobox",
+      "aria-label": type === "edit" ? t("editFilter") : t("addFilter"),
+      "aria-autocomplete": "list",
+      "aria-haspopup": "listbox",
+      "aria-expanded": isOpen,
+      "aria-controls": isOpen ? this.listboxId : undefined,
+      "aria-activedescendant": isOpen ? activeOptionId : undefined,
+      "aria-invalid": !!validationError,
+      "aria-describedby": validationError ? this.errorId : undefined,
+    } as const;
 
     return (
       <div
@@ -596,6 +798,7 @@ class TagInput extends Component<TagInputProps, TagInputState> {
                   onPaste={this.handlePaste}
                   onFocus={this.refreshShow}
                   onInput={(e) => this.setFullInputValue(e.currentTarget.value)}
+                  {...comboboxProps}
                   className={cn(
                     "w-full border-none p-0 text-sm",
                     "bg-transparent",
@@ -604,6 +807,7 @@ class TagInput extends Component<TagInputProps, TagInputState> {
                     "caret-foreground",
                     "shadow-none",
                     "flex items-center",
+                    validationError && "text-destructive",
                     "resize-none",
                     "h-8"
                   )}
@@ -636,6 +840,7 @@ class TagInput extends Component<TagInputProps, TagInputState> {
                     onClick={this.refreshShow}
                     onPaste={this.handlePaste}
                     onFocus={this.refreshShow}
+                    {...comboboxProps}
                     className={cn(
                       "w-full border-none p-0 text-sm min-h-none",
                       "bg-transparent",
@@ -644,6 +849,7 @@ class TagInput extends Component<TagInputProps, TagInputState> {
                       "caret-foreground",
                       "shadow-none",
                       "resize-none",
+                      validationError && "text-destructive",
                       "h-8"
                     )}
                     style={{
@@ -668,6 +874,14 @@ class TagInput extends Component<TagInputProps, TagInputState> {
               >
                 {fullInputValue}
               </span>
+              {active && placeholderOffset >= 0 && (
+                <span
+                  className="pointer-events-none absolute overflow-hidden text-ellipsis whitespace-pre text-sm text-muted-foreground/70"
+                  style={{ left: placeholderOffset, right: 0 }}
+                >
+                  {" " + attribute?.placeholder}
+                </span>
+              )}
             </div>
           </PopoverTrigger>
           <PopoverContent
@@ -683,18 +897,45 @@ class TagInput extends Component<TagInputProps, TagInputState> {
               e.preventDefault();
             }}
           >
+            {(validationError || validating) && (
+              <div
+                id={this.errorId}
+                className={cn(
+                  "border-b px-3 py-2 text-xs",
+                  validationError ? "text-destructive" : "text-muted-foreground"
+                )}
+              >
+                {validationError || t("validating")}
+              </div>
+            )}
             {showAttrSelect && (
               <AttributeSelect
                 ref={this.attrSelectRef}
                 attributes={attributes}
                 inputValue={attrStr}
                 maxHeight={maxHeight}
+                showRecent={type !== "edit"}
                 onSelect={this.handleAttrSelect}
+                listboxId={this.listboxId}
+                onActiveOptionChange={this.handleActiveOptionChange}
+              />
+            )}
+            {showOperatorSelect && !!attribute?.operators?.length && (
+              <OperatorSelect
+                ref={this.operatorSelectRef}
+                operators={attribute.operators}
+                operator={operator}
+                inputValue={operatorStr}
+                maxHeight={maxHeight}
+                onSelect={this.handleOperatorSelect}
+                listboxId={this.listboxId}
+                onActiveOptionChange={this.handleActiveOptionChange}
               />
             )}
             {showValueSelect && !!attribute && !!attribute.type && (
               <ValueSelect
                 ref={this.valueSelectRef}
+                attrKey={attribute.key}
                 type={attribute.type}
                 values={attribute.values ?? []}
                 render={attribute.render}
@@ -703,7 +944,12 @@ class TagInput extends Component<TagInputProps, TagInputState> {
                 onChange={this.handleValueChange}
                 onSelect={this.handleValueSelect}
                 onCancel={this.handleValueCancel}
+                onLoadError={(error) =>
+                  this.context.onValuesLoadError?.(attribute, error)
+                }
                 maxHeight={maxHeight}
+                listboxId={this.listboxId}
+                onActiveOptionChange={this.handleActiveOptionChange}
               />
             )}
           </PopoverContent>
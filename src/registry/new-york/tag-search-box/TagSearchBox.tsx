@@ -1,9 +1,31 @@
-import React, { Component, createRef, forwardRef } from "react";
+import React, {
+  Component,
+  createRef,
+  forwardRef,
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
 import clone from "clone";
 import { Tag, TagValue } from "@/registry/new-york/tag-search-box/Tag";
 import { TagInput } from "@/registry/new-york/tag-search-box/TagInput";
+import { GroupToken } from "@/registry/new-york/tag-search-box/GroupToken";
+import {
+  PresetMenu,
+  TagSearchBoxPreset,
+} from "@/registry/new-york/tag-search-box/PresetMenu";
+import {
+  TagSearchBoxHelp,
+  TagSearchBoxHelpSection,
+} from "@/registry/new-york/tag-search-box/TagSearchBoxHelp";
 import { mergeRefs } from "@/registry/new-york/tag-search-box/utils/MergeRefs";
 import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+import {
+  TagFilterContext,
+  TagFilterTarget,
+} from "@/registry/new-york/tag-search-box/TagFilterContext";
 import { withOutsideClick } from "@/registry/new-york/tag-search-box/utils/withOutsideClick";
 
 import {
@@ -13,34 +35,116 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { X, Info, Search } from "lucide-react";
+import { X, Info, Search, Code } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
-
-export type { AttributeValue, TagValue };
+import {
+  AttributeGroup,
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { toggleTagFilter } from "@/registry/new-york/tag-search-box/utils/TagFilter";
+import {
+  getAttrPrefix,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator";
+import {
+  mergeTagsIntoSearch,
+  parseTags,
+  TagQueryOptions,
+} from "@/registry/new-york/tag-search-box/utils/UrlQuery";
+import {
+  addHistoryItem,
+  fromHistoryTags,
+  createLocalStorageAdapter,
+  SearchHistoryItem,
+  SearchHistoryOptions,
+  SearchHistoryStorage,
+  SearchHistoryTag,
+  toHistoryTags,
+} from "@/registry/new-york/tag-search-box/utils/SearchHistory";
+import {
+  parseQuery,
+  QueryParseError,
+  stringifyQuery,
+} from "@/registry/new-york/tag-search-box/utils/QueryGrammar";
+import {
+  DEFAULT_VALUES_CACHE_TTL,
+  ValuesCache,
+  ValuesCacheOptions,
+} from "@/registry/new-york/tag-search-box/utils/ValuesCache";
+import {
+  buildTagExpression,
+  TagExpression,
+  TagExpressionItem,
+} from "@/registry/new-york/tag-search-box/utils/TagExpression";
+import { FilterFn } from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import { ValidationMode } from "@/registry/new-york/tag-search-box/utils/Validate";
+import {
+  createTranslate,
+  TagSearchBoxLocale,
+  TagSearchBoxMessages,
+} from "@/registry/new-york/tag-search-box/utils/Locale";
+import {
+  FocusPosType,
+  getTagsValue,
+  InternalTag,
+  TagSearchBoxInstance,
+  useTagSearchBox,
+} from "@/registry/new-york/tag-search-box/useTagSearchBox";
+
+export type {
+  AttributeGroup,
+  AttributeValue,
+  TagValue,
+  TagOperator,
+  TagExpression,
+  TagSearchBoxHelpSection,
+  TagSearchBoxPreset,
+};
+
+export { FocusPosType };
 
 /**
- * 焦点所在位置类型
+ * 标签聚焦时响应的按键：左右方向键及 Home / End 移动焦点，Enter 编辑，`!` 切换取反，Delete / Backspace 删除，Esc 返回输入框
  */
-export enum FocusPosType {
-  INPUT = 0,
-  INPUT_EDIT = 1,
-  TAG = 2,
+export const TAG_FOCUS_KEYS = [
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+  "Enter",
+  "!",
+  "Delete",
+  "Backspace",
+  "Escape",
+];
+
+export interface TagUrlSyncOptions extends TagQueryOptions {
+  /**
+   * 写回 URL 的方式
+   * @default "push"
+   */
+  history?: "push" | "replace";
 }
 
-let COUNTER = 0;
-
 interface TagSearchBoxProps {
   /**
    * 要选择过滤的资源属性的集合
    */
   attributes?: AttributeValue[];
+  /**
+   * 资源属性分组配置，决定分组的标题、顺序及是否置顶、默认折叠
+   *
+   * 可直接传入分组标识，未配置的分组按资源属性出现的顺序排在之后
+   */
+  attributeGroups?: (string | AttributeGroup)[];
   /**
    * 搜索框中默认包含的标签值的集合
    */
@@ -84,6 +188,10 @@ interface TagSearchBoxProps {
    * @default false
    */
   hideHelp?: boolean;
+  /**
+   * 帮助中追加的自定义章节
+   */
+  helpSections?: TagSearchBoxHelpSection[];
   /**
    * 清空按钮点击回调
    *
@@ -113,6 +221,23 @@ interface TagSearchBoxProps {
    * @default false
    */
   disableAttributesFilter?: boolean;
+  /**
+   * 自定义资源属性及可选值的匹配函数，返回 `null` 表示不匹配，结果按 `score` 降序排列
+   *
+   * 默认使用模糊匹配，支持子序列、单词开头及首字母缩写
+   */
+  filterFn?: FilterFn;
+  /**
+   * 属性值校验失败时的处理方式
+   *
+   * - `block` 阻止生成标签，在输入框下方提示错误信息
+   * - `mark` 仍生成标签，标签标红并在提示中展示错误信息
+   *
+   * 仅在输入或修改标签时校验，通过 `value`、URL、搜索历史及预设恢复的标签不会重新校验，`mark` 模式下也不会标红
+   *
+   * @default "block"
+   */
+  validationMode?: ValidationMode;
   /**
    * 删除单个标签的回调
    *
@@ -121,19 +246,230 @@ interface TagSearchBoxProps {
    * @since 2.7.4
    */
   onDeleteTag?: (tag: TagValue) => Promise<boolean> | boolean;
+  /**
+   * 将标签与 URL 查询参数双向同步
+   *
+   * 开启后从 `location.search` 读取初始标签，标签变更时写回 URL，并响应浏览器前进/后退；属性及值均使用 `key` 表示
+   *
+   * 受控时 URL 中的初始标签优先于 `value`，挂载后通过 `onChange` 通知
+   *
+   * @default false
+   */
+  syncToUrl?: boolean | TagUrlSyncOptions;
+  /**
+   * 是否显示查询语句切换按钮
+   *
+   * 开启后可将标签切换为纯文本查询语句进行编辑，如 `status:running region:(east-1|west-2)`
+   *
+   * @default false
+   */
+  rawQuery?: boolean;
+  /**
+   * 属性可选值加载失败时调用
+   *
+   * 值选择列表中会展示错误提示及重试按钮
+   */
+  onValuesLoadError?: (attr: AttributeValue, error: unknown) => void;
+  /**
+   * 缓存通过函数加载的属性可选值，再次打开时直接展示
+   *
+   * 传入 `false` 关闭缓存；可通过 ref 的 `refreshAttributeValues(key)` 或缓存实例的 `invalidate(key)` 在后端数据变化时刷新
+   *
+   * @default true
+   */
+  valuesCache?: boolean | ValuesCacheOptions;
+  /**
+   * 是否开启分组模式
+   *
+   * 开启后可在标签之间插入 OR 及括号：输入框为空时输入 `|` 插入 OR，输入 `(` `)` 插入括号；相邻标签之间为 AND
+   *
+   * 分隔符不会写入 URL、查询语句、搜索历史及预设，从中恢复时仅包含标签，即全部为 AND
+   *
+   * @default false
+   */
+  groupMode?: boolean;
+  /**
+   * 分组模式下标签或分隔符变化时调用，无标签时为 `null`
+   */
+  onExpressionChange?: (expression: TagExpression | null) => void;
+  /**
+   * 是否记录搜索历史
+   *
+   * 点击搜索按钮时记录当前标签，输入框为空时在属性列表前展示最近搜索，选择后恢复全部标签
+   *
+   * @default false
+   */
+  history?: boolean | SearchHistoryOptions;
+  /**
+   * 已保存的预设，由外部负责存储
+   *
+   * 传入 `presets` 或 `onPresetSave` 时在清空按钮旁展示预设菜单；应用时按当前 `attributes` 还原标签，忽略属性已不存在的标签
+   */
+  presets?: TagSearchBoxPreset[];
+  /**
+   * 将当前标签保存为预设时调用
+   */
+  onPresetSave?: (name: string, tags: SearchHistoryTag[]) => void;
+  /**
+   * 删除预设时调用，未提供时不展示删除按钮
+   */
+  onPresetDelete?: (preset: TagSearchBoxPreset) => void;
+  /**
+   * 应用预设后调用，此时标签已替换为预设中的标签
+   */
+  onPresetApply?: (preset: TagSearchBoxPreset) => void;
+  /**
+   * 内置文案的语言
+   *
+   * @default "en-US"
+   */
+  locale?: TagSearchBoxLocale;
+  /**
+   * 自定义文案，覆盖 `locale` 对应的内置文案，未传入的 key 仍使用内置文案
+   */
+  messages?: Partial<TagSearchBoxMessages>;
+}
+
+/**
+ * 通过 ref 获取的实例方法
+ */
+export interface TagSearchBoxRef {
+  /**
+   * 搜索框根元素
+   */
+  readonly element: HTMLDivElement | null;
+  /**
+   * 展开搜索框并聚焦输入框
+   */
+  focus: () => void;
+  /**
+   * 收起搜索框并移出焦点
+   */
+  blur: () => void;
+  /**
+   * 清空标签，保留 `removeable` 为 `false` 的标签
+   */
+  clear: () => void;
+  /**
+   * 在末尾添加标签，同输入框生成标签
+   */
+  addTag: (tag: TagValue) => Promise<void>;
+  /**
+   * 按输入框的写法解析文本并在末尾生成标签，如 `Status: running | stopped`，解析及校验方式同输入框
+   *
+   * 返回的 Promise resolve 为是否生成了标签
+   */
+  commitInput: (text: string) => Promise<boolean>;
+  /**
+   * 删除指定属性的标签，同点击删除按钮，`removeable` 为 `false` 或 `onDeleteTag` 未通过的标签不会被删除
+   */
+  removeTag: (key: string) => Promise<void>;
+  /**
+   * 替换全部标签
+   */
+  setTags: (tags: TagValue[]) => Promise<void>;
+  /**
+   * 获取当前标签值
+   */
+  getValue: () => TagValue[];
+  /**
+   * 展开搜索框并打开指定属性的值选择
+   */
+  openAttribute: (key: string) => void;
+  /**
+   * 将输入框中的内容生成标签并通知变更，开启搜索历史时同时记录
+   */
+  search: () => void;
+  /**
+   * 清除属性可选值缓存并重新加载正在展示的列表，不传 `key` 时刷新全部属性
+   */
+  refreshAttributeValues: (key?: string) => void;
 }
 
 interface TagSearchBoxState {
   active: boolean;
-  curPos: number;
-  curPosType: FocusPosType;
   showSelect: boolean;
-  tags: TagValue[];
-  lastValue?: TagValue[];
+  rawMode: boolean;
+  rawText: string;
+  rawError: QueryParseError | null;
+  showHelp: boolean;
+  history: SearchHistoryItem[];
+  collapsedGroups: string[];
+  /**
+   * 通过 live region 播报的标签变更信息
+   */
+  announcement: string;
+}
+
+// 获取 URL 同步配置
+function getUrlSyncOptions(props: TagSearchBoxProps) {
+  const { syncToUrl } = props;
+  if (!syncToUrl || typeof window === "undefined") return null;
+  return typeof syncToUrl === "object" ? syncToUrl : {};
+}
+
+// 从 URL 中读取标签
+function getUrlTags(props: TagSearchBoxProps) {
+  const options = getUrlSyncOptions(props);
+  if (!options) return [];
+  return parseTags(window.location.search, props.attributes ?? [], options);
+}
+
+// 将标签写回 URL
+function syncUrl(props: TagSearchBoxProps, tags: TagValue[]) {
+  const options = getUrlSyncOptions(props);
+  if (!options) return;
+
+  const { pathname, search, hash } = window.location;
+  const nextSearch = mergeTagsIntoSearch(
+    search,
+    tags,
+    props.attributes ?? [],
+    options
+  );
+  if (nextSearch === search) return;
+
+  const url = pathname + nextSearch + hash;
+  if (options.history === "replace") {
+    window.history.replaceState(window.history.state, "", url);
+  } else {
+    window.history.pushState(window.history.state, "", url);
+  }
+}
+
+// 获取分组模式下的表达式
+function getExpression(tags: Partial<InternalTag>[]) {
+  const items: TagExpressionItem[] = [];
+  tags.forEach((item) => {
+    if (item._group) {
+      items.push(item._group);
+    } else {
+      items.push(...getTagsValue([item]));
+    }
+  });
+  return buildTagExpression(items);
+}
+
+// 通知变更，从 URL 恢复的标签不再写回 URL，避免产生新的历史记录
+function notifyChange(
+  props: TagSearchBoxProps,
+  tags: Partial<InternalTag>[],
+  shouldSyncUrl = true
+) {
+  const { onChange = () => {}, groupMode, onExpressionChange } = props;
+  const value = getTagsValue(tags);
+  if (shouldSyncUrl) {
+    syncUrl(props, value);
+  }
+  onChange(value);
+  if (groupMode) {
+    onExpressionChange?.(getExpression(tags));
+  }
 }
 
 class ITagSearchBox extends Component<
   TagSearchBoxProps & {
+    box: TagSearchBoxInstance;
     forwardRef?: React.Ref<HTMLDivElement>;
   },
   TagSearchBoxState
@@ -142,76 +478,53 @@ class ITagSearchBox extends Component<
 
   private searchWrapRef = createRef<HTMLDivElement>();
   private searchBoxRef = createRef<HTMLDivElement>();
+  private rawInputRef = createRef<HTMLInputElement>();
   private tagRefs: { [key: string]: any } = {};
 
-  constructor(props: TagSearchBoxProps) {
+  // 未传入外部缓存实例时使用的内部缓存
+  private ownValuesCache = new ValuesCache();
+  private defaultHistoryStorage: SearchHistoryStorage | null = null;
+
+  constructor(props: TagSearchBoxProps & { box: TagSearchBoxInstance }) {
     super(props);
     this.tagRefs = {};
 
-    const { defaultValue = [], value } = props;
-    const initialTags = defaultValue.map((item) => {
-      const newItem = clone(item);
-      // @ts-ignore
-      newItem["_key"] = COUNTER++;
-      return newItem;
-    });
-
     this.state = {
       active: false,
-      curPos: 0,
-      curPosType: FocusPosType.INPUT,
       showSelect: true,
-      tags: initialTags,
-      lastValue: value,
+      rawMode: false,
+      rawText: "",
+      rawError: null,
+      showHelp: false,
+      history: this.getHistoryStorage()?.load() ?? [],
+      collapsedGroups: this.getAttributeGroups()
+        .filter((group) => group.defaultCollapsed)
+        .map((group) => group.key),
+      announcement: "",
     };
   }
 
-  componentDidUpdate(prevProps: TagSearchBoxProps) {
-    const { value } = this.props;
-    if (value !== prevProps.value) {
-      const tagValue =
-        value?.map((item) => {
-          const newItem = clone(item);
-          if (!("_key" in newItem)) {
-            // @ts-ignore
-            newItem["_key"] = COUNTER++;
-          }
-          return newItem;
-        }) || [];
+  componentDidMount() {
+    if (!this.props.syncToUrl) return;
 
-      this.setState({
-        tags: clone(tagValue),
-        lastValue: value,
-      });
+    window.addEventListener("popstate", this.handlePopState);
+
+    // URL 中的初始标签需要通知外部，受控时当前标签可能仍为外部的 value
+    const urlTags = getUrlTags(this.props);
+    if (urlTags.length > 0) {
+      notifyChange(this.props, urlTags, false);
     }
   }
 
-  // 重置标签状态
-  private resetTagsState = (
-    props: TagSearchBoxProps,
-    callback?: () => void
-  ) => {
-    if ("value" in props) {
-      const tagValue =
-        props.value?.map((item) => {
-          const newItem = clone(item);
-          if (!("_key" in newItem)) {
-            // @ts-ignore
-            newItem["_key"] = COUNTER++;
-          }
-          return newItem;
-        }) || [];
-
-      this.setState({ tags: clone(tagValue) }, () => {
-        if (callback) setTimeout(callback, 0);
-      });
-    }
-  };
+  componentWillUnmount() {
+    window.removeEventListener("popstate", this.handlePopState);
+  }
 
   // 打开搜索框
   open = () => {
-    const { disabled } = this.props;
-    const { active, tags = [] } = this.state;
+    const { disabled, box } = this.props;
+    const { active } = this.state;
+    const { tags } = box;
 
     if (disabled) {
       return;
@@ -219,7 +532,7 @@ class ITagSearchBox extends Component<
 
     if (!active) {
       this.setState({ active: true });
-      this.setState({ curPosType: FocusPosType.INPUT, curPos: tags.length });
+      box.setFocus(tags.length, FocusPosType.INPUT);
     } else {
       this.handleTagEvent("click-input", tags.length);
     }
@@ -232,92 +545,152 @@ class ITagSearchBox extends Component<
 
   // 关闭搜索框
   close = () => {
-    const { active, tags } = this.state;
-    const updatedTags = tags.map((item, index) => {
+    const { box } = this.props;
+    const { active } = this.state;
+    const updatedTags = box.tags.map((item, index) => {
       const newItem = clone(item);
-      // @ts-ignore
-      if (newItem["_edit"]) {
+      if (newItem._edit) {
         this.tagRefs[`tag-${index}`]?.editDone();
-        // @ts-ignore
-        newItem["_edit"] = false;
+        newItem._edit = false;
       }
       return newItem;
     });
 
-    this.setTags(
-      updatedTags,
-      () => {
-        this.setState({ showSelect: false }, () => {
-          if (active) {
-            this.setState({ active: false }, () => {
-              this.setState({ curPos: -1 });
-              if (this.searchBoxRef.current) {
-                this.searchBoxRef.current.scrollLeft = 0;
-              }
-            });
-          }
-        });
-      },
-      false
-    );
+    box.setTags(updatedTags, { notify: false }).then(() => {
+      this.setState({ showSelect: false }, () => {
+        if (active) {
+          this.setState({ active: false }, () => {
+            box.setFocus(-1);
+            if (this.searchBoxRef.current) {
+              this.searchBoxRef.current.scrollLeft = 0;
+            }
+          });
+        }
+      });
+    });
   };
 
-  // 获取标签值
-  private getValue = (tags: TagValue[]) => {
-    const result: TagValue[] = [];
-
-    tags.forEach((item) => {
-      const { values, attr = undefined } = item;
-      if (values && values.length > 0) {
-        result.push({
-          attr,
-          values,
-          // @ts-ignore
-          _key: item["_key"],
-          // @ts-ignore
-          _edit: item["_edit"],
-        });
-      }
+  // 浏览器前进/后退时从 URL 恢复标签
+  private handlePopState = () => {
+    const tags = getUrlTags(this.props);
+    this.props.box.setTags(tags, { notify: false }).then(() => {
+      notifyChange(this.props, tags, false);
     });
+  };
 
-    return result;
+  private getAttributeGroups = (): AttributeGroup[] => {
+    const { attributeGroups = [] } = this.props;
+    return attributeGroups.map((group) =>
+      typeof group === "string" ? { key: group } : group
+    );
   };
 
-  // 通知变更
-  private notify = (tags: TagValue[]) => {
-    const { onChange = () => {} } = this.props;
-    onChange(this.getValue(tags));
+  // 折叠或展开属性分组
+  private handleAttributeGroupToggle = (key: string) => {
+    this.setState(({ collapsedGroups }) => ({
+      collapsedGroups: collapsedGroups.includes(key)
+        ? collapsedGroups.filter((item) => item !== key)
+        : [...collapsedGroups, key],
+    }));
   };
 
-  // 设置标签状态
-  private setTags = (
-    newTags: TagValue[],
-    callback?: (() => void) | null,
-    shouldNotify = true
-  ) => {
-    const { value } = this.props;
-    const cb = () => {
-      if (shouldNotify) {
-        this.notifyChange(newTags);
-      }
-      if (callback) {
-        callback();
-      }
-    };
+  // 获取搜索历史存储，未开启时返回 null
+  private getHistoryStorage = () => {
+    const { history } = this.props;
+    if (!history) return null;
+    if (typeof history === "object" && history.storage) return history.storage;
 
-    // 受控模式
-    if (shouldNotify && value) {
-      this.resetTagsState(this.props, cb);
-    } else {
-      this.setState({ tags: newTags }, () => {
-        setTimeout(cb, 0);
-      });
+    if (!this.defaultHistoryStorage) {
+      this.defaultHistoryStorage = createLocalStorageAdapter();
     }
+    return this.defaultHistoryStorage;
+  };
+
+  // 记录搜索历史
+  private recordHistory = (tags: TagValue[]) => {
+    const { history } = this.props;
+    const storage = this.getHistoryStorage();
+    const value = getTagsValue(tags);
+    if (!storage || value.length <= 0) return;
+
+    const items = addHistoryItem(
+      storage.load(),
+      toHistoryTags(value),
+      typeof history === "object" ? history.maxSize : undefined
+    );
+    storage.save(items);
+    this.setState({ history: items });
+  };
+
+  // 获取标签展示文本，如 `Status: running`
+  private getTagLabel = (tag: TagValue) => {
+    const valueStr = (tag.values ?? []).map((value) => value.name).join(" | ");
+    return tag.attr
+      ? getAttrPrefix(tag.attr.name, tag.operator, tag.negated) + valueStr
+      : valueStr;
+  };
+
+  // 获取当前语言的文案
+  private getTranslate = () => {
+    const { locale, messages } = this.props;
+    return createTranslate(locale, messages);
+  };
+
+  // 通过 live region 播报标签变更及当前筛选条件数量
+  private announce = (message: string, tags: TagValue[]) => {
+    this.setState({
+      announcement: this.getTranslate()("announceFilterCount", {
+        message,
+        count: getTagsValue(tags).length,
+      }),
+    });
+  };
+
+  // 获取最近搜索，忽略已无法解析的记录
+  private getRecentSearches = () => {
+    const { attributes = [] } = this.props;
+
+    return this.state.history
+      .map((item) => {
+        const tags = fromHistoryTags(item.tags, attributes);
+        const label = tags.map(this.getTagLabel).join(" · ");
+        return { tags, label };
+      })
+      .filter((item) => item.tags.length > 0);
+  };
+
+  // 保存预设
+  private handlePresetSave = (name: string) => {
+    const { onPresetSave = () => {} } = this.props;
+    // 与搜索历史相同，仅保存属性 key 及值，便于序列化
+    onPresetSave(name, toHistoryTags(getTagsValue(this.props.box.tags)));
+  };
+
+  // 应用预设
+  private handlePresetApply = (preset: TagSearchBoxPreset) => {
+    const { attributes = [], onPresetApply = () => {} } = this.props;
+    this.handleRecentSelect(fromHistoryTags(preset.tags, attributes));
+    onPresetApply(preset);
   };
 
-  // 通知标签变更
-  private notifyChange = (tags: TagValue[]) => {
-    this.notify(tags);
+  // 选择最近搜索后恢复全部标签，保留 `removeable` 为 `false` 的标签
+  private handleRecentSelect = (tags: TagValue[]) => {
+    const { box } = this.props;
+    const locked = box.tags.filter((tag) => tag.attr?.removeable === false);
+    // 不可重复使用的属性已有保留的标签时忽略恢复的标签
+    const restored = tags.filter(
+      (tag) =>
+        !tag.attr ||
+        tag.attr.reusable ||
+        !locked.some((item) => item.attr?.key === tag.attr?.key)
+    );
+    const newTags = [...locked, ...clone(restored)];
+
+    box.setTags(newTags).then(() => {
+      this.tagRefs[`tag-${newTags.length}`]?.focusInput();
+    });
+    this.setState({ showSelect: false });
+    box.setFocus(newTags.length);
   };
 
   // 处理清除按钮点击
@@ -325,9 +698,24 @@ class ITagSearchBox extends Component<
     e.stopPropagation();
     const { onClearButtonClick = () => {} } = this.props;
     onClearButtonClick(e);
+    this.clear();
+  };
 
-    const { tags } = this.state;
+  /**
+   * 清空标签，保留 `removeable` 为 `false` 的标签
+   */
+  clear = () => {
+    const { box } = this.props;
+    const { rawMode } = this.state;
+    const { tags } = box;
     const nextTags = tags.filter((i) => i.attr && i.attr.removeable === false);
+
+    if (rawMode) {
+      this.setState({
+        rawText: stringifyQuery(getTagsValue(nextTags)),
+        rawError: null,
+      });
+    }
     const index = `tag-${nextTags.length}`;
 
     if (tags.length <= 0) {
@@ -335,18 +723,14 @@ class ITagSearchBox extends Component<
       return;
     }
 
-    this.setTags(nextTags, () => {
+    this.announce(this.getTranslate()("announceCleared"), nextTags);
+    box.clear().then(() => {
       return setTimeout(() => {
         this.tagRefs[index]?.setInputValue("");
         this.tagRefs[index]?.focusInput();
       }, 0);
     });
 
-    this.setState({
-      curPos: 0,
-      curPosType: FocusPosType.INPUT,
-    });
-
     // 刷新下拉列表位置
     const input = this.tagRefs[`tag-${tags.length}`];
     if (input) {
@@ -362,18 +746,31 @@ class ITagSearchBox extends Component<
     if (onHelpButtonClick(e) === false) {
       return;
     }
+    this.setState({ showHelp: true });
   };
 
   // 处理搜索按钮点击
   private handleSearch = (e: React.MouseEvent) => {
-    const { active, tags } = this.state;
-    const { onSearchButtonClick = () => {} } = this.props;
+    const { active, rawMode } = this.state;
+    const { onSearchButtonClick = () => {}, box } = this.props;
+    const { tags } = box;
+
+    if (rawMode) {
+      e.stopPropagation();
+      const rawTags = this.applyRawQuery();
+      if (rawTags) {
+        this.recordHistory(rawTags);
+        onSearchButtonClick(e, getTagsValue(rawTags));
+      }
+      return;
+    }
 
     if (!active) {
       // 如果监听了按钮点击，此时点击按钮不激活搜索框
       if ("onSearchButtonClick" in this.props) {
         e.stopPropagation();
-        onSearchButtonClick(e, this.getValue(tags));
+        this.recordHistory(tags);
+        onSearchButtonClick(e, getTagsValue(tags));
       }
       return;
     }
@@ -383,9 +780,20 @@ class ITagSearchBox extends Component<
     // 输入值生成标签操作会异步改变 tags
     // 此处保证 tags 状态变化完成后再进行回调
     setTimeout(() => {
-      onSearchButtonClick(e, this.getValue(tags));
+      const { tags } = this.props.box;
+      this.recordHistory(tags);
+      onSearchButtonClick(e, getTagsValue(tags));
     }, 100);
 
+    if (this.addTagsByInputValue()) return;
+
+    notifyChange(this.props, tags);
+    this.tagRefs[`tag-${tags.length}`]?.focusInput();
+  };
+
+  // 将输入框中的内容生成标签，返回是否已生成标签
+  private addTagsByInputValue = () => {
+    const { tags } = this.props.box;
     let flag = false;
 
     const input = this.tagRefs[`tag-${tags.length}`];
@@ -396,19 +804,188 @@ class ITagSearchBox extends Component<
     }
 
     for (let i = 0; i < tags.length; ++i) {
+      if (tags[i]._group) continue;
+
       const tagInput = this.tagRefs[`tag-${i}`];
-      if (!tagInput || !tagInput.addTagByEditInputValue) return;
+      if (!tagInput || !tagInput.addTagByEditInputValue) return true;
 
-      // @ts-ignore
-      if (tags[i]["_edit"] && tagInput.addTagByEditInputValue()) {
+      if (tags[i]._edit && tagInput.addTagByEditInputValue()) {
         flag = true;
       }
     }
 
-    if (flag) return;
+    return flag;
+  };
+
+  /**
+   * 触发搜索：将输入框中的内容生成标签并通知变更，开启搜索历史时同时记录
+   */
+  search = () => {
+    const { tags } = this.props.box;
+
+    if (this.state.rawMode) {
+      const rawTags = this.applyRawQuery();
+      if (rawTags) this.recordHistory(rawTags);
+      return;
+    }
+
+    // 生成标签时已通知变更
+    if (this.addTagsByInputValue()) {
+      setTimeout(() => this.recordHistory(this.props.box.tags), 100);
+      return;
+    }
+
+    this.recordHistory(tags);
+    notifyChange(this.props, tags);
+  };
+
+  /**
+   * 展开搜索框并聚焦输入框
+   */
+  focus = () => {
+    this.open();
+  };
+
+  /**
+   * 收起搜索框并移出焦点
+   */
+  blur = () => {
+    const element = document.activeElement;
+    if (
+      element instanceof HTMLElement &&
+      this.searchWrapRef.current?.contains(element)
+    ) {
+      element.blur();
+    }
+    this.close();
+  };
+
+  /**
+   * 在末尾添加标签
+   */
+  addTag = (tag: TagValue) => {
+    return this.handleTagEvent("add", this.props.box.tags.length, tag);
+  };
+
+  /**
+   * 删除指定属性的标签，逐个经过 `onDeleteTag` 确认
+   */
+  removeTag = async (key: string) => {
+    const { tags } = this.props.box;
+    // 从后向前删除，前面标签的位置不受影响
+    for (let i = tags.length - 1; i >= 0; --i) {
+      if (tags[i].attr?.key === key) {
+        await this.handleTagEvent("del", i);
+      }
+    }
+  };
+
+  /**
+   * 按属性值切换筛选标签，移除整个标签时同点击删除按钮，经过 `onDeleteTag` 确认
+   */
+  toggleFilter = (attr: AttributeValue, value: Value, negated: boolean) => {
+    const { box } = this.props;
+    const next = toggleTagFilter(box.tags, attr, value, negated);
+    const removed = box.tags.findIndex((tag) => !next.includes(tag));
+    if (next.length < box.tags.length && removed >= 0) {
+      return this.handleTagEvent("del", removed);
+    }
+    return box.setTags(next);
+  };
+
+  /**
+   * 按输入框的写法解析文本并在末尾生成标签，返回是否生成了标签
+   */
+  commitInput = async (text: string) => {
+    const { box } = this.props;
+    const index = box.tags.length;
+    if (!(await box.commitInput(text, index))) return false;
+
+    // 受控且外部未更新 value 时标签不存在
+    const { tags } = this.props.box;
+    if (tags[index]) {
+      this.announce(
+        this.getTranslate()("announceTagAdded", {
+          label: this.getTagLabel(tags[index]),
+        }),
+        tags
+      );
+    }
+    return true;
+  };
+
+  /**
+   * 打开指定属性的值选择，已存在该属性（且不可重复使用）的标签时编辑该标签
+   */
+  openAttribute = (key: string) => {
+    const { attributes = [], box, disabled } = this.props;
+    const attr = attributes.find((item) => item.key === key);
+    if (!attr || disabled || this.state.rawMode) return;
+
+    const index = box.tags.findIndex((tag) => tag.attr?.key === key);
+    if (index >= 0 && !attr.reusable) {
+      this.setState({ active: true }, () => {
+        this.handleTagEvent("click", index, "value");
+      });
+      return;
+    }
+
+    this.open();
+    const input = this.tagRefs[`tag-${box.tags.length}`];
+    input?.setInfo(
+      { attr, operator: attr.operators?.[0] },
+      () => input.selectValue()
+    );
+  };
+
+  // 切换查询语句模式
+  private handleRawToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const { rawMode } = this.state;
+    const { tags } = this.props.box;
+
+    if (!rawMode) {
+      this.setState(
+        {
+          rawMode: true,
+          rawText: stringifyQuery(getTagsValue(tags)),
+          rawError: null,
+        },
+        () => this.rawInputRef.current?.focus()
+      );
+      return;
+    }
+
+    if (this.applyRawQuery()) {
+      this.setState({ rawMode: false });
+    }
+  };
+
+  // 解析查询语句生成标签，解析失败时定位到出错位置
+  private applyRawQuery = () => {
+    const { attributes = [], box } = this.props;
+
+    try {
+      const tags = parseQuery(this.state.rawText, attributes);
+      this.setState({ rawError: null });
+      box.setTags(tags);
+      return tags;
+    } catch (err) {
+      if (!(err instanceof QueryParseError)) throw err;
+
+      this.setState({ rawError: err });
+      const input = this.rawInputRef.current;
+      input?.focus();
+      input?.setSelectionRange(err.position, err.position + 1);
+      return null;
+    }
+  };
 
-    this.notify(tags);
-    input.focusInput();
+  private handleRawKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      this.applyRawQuery();
+    }
   };
 
   // 处理标签事件
@@ -417,14 +994,22 @@ class ITagSearchBox extends Component<
     index: number,
     payload?: any
   ) => {
-    const { tags } = this.state;
-    const newTags = clone(tags);
+    const { box } = this.props;
+    const { tags } = box;
+    // 新增的标签在提交后才分配 `_key`
+    const newTags: Partial<InternalTag>[] = clone(tags);
+    const t = this.getTranslate();
+    // 事件处理后的焦点类型，为空时保持不变
+    let focusType: FocusPosType | undefined;
 
     switch (type) {
       case "add":
-        payload["_key"] = COUNTER++;
         newTags.splice(++index, 0, payload);
-        this.setTags(newTags, () => {
+        this.announce(
+          t("announceTagAdded", { label: this.getTagLabel(payload) }),
+          newTags
+        );
+        box.addTag(payload, index).then(() => {
           this.tagRefs[`tag-${index}`]?.focusInput();
         });
         this.setState({ showSelect: false });
@@ -432,33 +1017,41 @@ class ITagSearchBox extends Component<
 
       case "edit":
         this.tagRefs[`tag-${index}`]?.editDone();
-        newTags[index].attr = payload.attr;
-        newTags[index].values = payload.values;
-        // @ts-ignore
-        newTags[index]["_edit"] = false;
-        this.setTags(newTags);
+        newTags[index] = {
+          ...newTags[index],
+          attr: payload.attr,
+          operator: payload.operator,
+          negated: payload.negated,
+          values: payload.values,
+          _invalid: payload._invalid,
+        };
+        this.announce(
+          t("announceTagUpdated", { label: this.getTagLabel(newTags[index]) }),
+          newTags
+        );
+        box.editTag(index, newTags[index]);
         index++;
-        this.setState({
-          showSelect: false,
-          curPosType: FocusPosType.INPUT,
-        });
+        this.setState({ showSelect: false });
+        focusType = FocusPosType.INPUT;
         break;
 
       case "edit-cancel":
         this.tagRefs[`tag-${index}`]?.editDone();
-        this.setTags(newTags, () => null, false);
-        this.setState({
-          showSelect: false,
-          curPosType: FocusPosType.INPUT,
-        });
+        box.cancelEdit(index);
+        this.setState({ showSelect: false });
+        focusType = FocusPosType.INPUT;
         break;
 
       case "editing":
         if ("attr" in payload && newTags[index])
           newTags[index].attr = payload.attr;
+        if ("operator" in payload && newTags[index])
+          newTags[index].operator = payload.operator;
+        if ("negated" in payload && newTags[index])
+          newTags[index].negated = payload.negated;
         if ("values" in payload && newTags[index])
           newTags[index].values = payload.values;
-        this.setTags(newTags, null, false);
+        box.setTags(newTags, { notify: false });
         break;
 
       case "del":
@@ -466,17 +1059,30 @@ class ITagSearchBox extends Component<
         if (!newTags[index]) break;
 
         const { onDeleteTag } = this.props;
-        const canDeleteTag = await onDeleteTag?.(newTags[index]);
-        if (onDeleteTag && !Boolean(canDeleteTag)) break;
+        const isGroupToken = !!newTags[index]._group;
+        const canDeleteTag =
+          !isGroupToken && (await onDeleteTag?.(newTags[index]));
+        if (onDeleteTag && !isGroupToken && !Boolean(canDeleteTag)) break;
 
         const attr = newTags[index].attr;
         if (attr && attr?.removeable === false) {
           break;
         }
 
-        newTags.splice(index, 1);
-        this.setTags(newTags, () => {
-          this.setState({ curPosType: FocusPosType.INPUT });
+        const [removed] = newTags.splice(index, 1);
+        this.announce(
+          isGroupToken
+            ? t("announceGroupRemoved")
+            : t("announceTagRemoved", { label: this.getTagLabel(removed) }),
+          newTags
+        );
+        box.removeTag(index).then(() => {
+          // 键盘删除聚焦的标签后焦点移至相邻标签
+          if (payload === "Backspace" || payload === "Delete") {
+            this.focusTag(payload === "Backspace" ? Math.max(index - 1, 0) : index);
+          } else {
+            box.setFocus(index, FocusPosType.INPUT);
+          }
         });
 
         if (payload !== "edit") {
@@ -484,6 +1090,30 @@ class ITagSearchBox extends Component<
         }
         break;
 
+      case "negate":
+        if (!newTags[index]?.attr) break;
+        newTags[index].negated = !newTags[index].negated;
+        this.announce(
+          t("announceTagUpdated", { label: this.getTagLabel(newTags[index]) }),
+          newTags
+        );
+        box.setTags(newTags);
+        break;
+
+      case "group":
+        if (!this.props.groupMode) break;
+        const token: Partial<InternalTag> = {
+          values: [],
+          _group: payload,
+        };
+        newTags.splice(index, 0, token);
+        this.announce(t("announceGroupAdded"), newTags);
+        box.addTag(token, index).then(() => {
+          this.tagRefs[`tag-${index}`]?.focusInput();
+        });
+        index++;
+        break;
+
       case "click":
         if (!this.state.active) {
           this.open();
@@ -491,26 +1121,61 @@ class ITagSearchBox extends Component<
         }
 
         const pos = payload;
-        // @ts-ignore
-        newTags[index]["_edit"] = true;
-        this.setTags(
-          newTags,
-          () => {
-            this.setState({ showSelect: true }, () => {
-              this.tagRefs[`tag-${index}`]?.edit(pos);
-            });
-          },
-          false
-        );
-        this.setState({ curPosType: FocusPosType.INPUT_EDIT });
+        box.startEdit(index).then(() => {
+          this.setState({ showSelect: true }, () => {
+            this.tagRefs[`tag-${index}`]?.edit(pos);
+          });
+        });
+        focusType = FocusPosType.INPUT_EDIT;
         break;
 
-      case "click-input":
-        if (payload === "edit") {
-          this.setState({ curPosType: FocusPosType.INPUT_EDIT });
-        } else {
-          this.setState({ curPosType: FocusPosType.INPUT });
+      case "tag-focus":
+        box.setFocus(index, FocusPosType.TAG);
+        this.setState({ showSelect: false });
+        return;
+
+      // 焦点离开标签（如 Tab 键）时不再展示聚焦样式，移动至其他标签时随后会触发 tag-focus
+      case "tag-blur":
+        if (box.focusType === FocusPosType.TAG && box.focusedIndex === index) {
+          box.setFocus(tags.length, FocusPosType.INPUT);
+        }
+        return;
+
+      case "tag-key":
+        switch (payload) {
+          case "ArrowLeft":
+            this.focusTag(Math.max(index - 1, 0));
+            break;
+          case "ArrowRight":
+            this.focusTag(index + 1);
+            break;
+          case "Home":
+            this.focusTag(0);
+            break;
+          case "End":
+            this.focusTag(tags.length - 1);
+            break;
+          case "Escape":
+            this.focusTag(tags.length);
+            break;
+          case "Enter":
+            if (!tags[index]?._group) {
+              this.handleTagEvent("click", index, "value");
+            }
+            break;
+          case "!":
+            this.handleTagEvent("negate", index);
+            break;
+          case "Delete":
+          case "Backspace":
+            this.handleTagEvent("del", index, payload);
+            break;
         }
+        return;
+
+      case "click-input":
+        focusType =
+          payload === "edit" ? FocusPosType.INPUT_EDIT : FocusPosType.INPUT;
 
         if (!this.state.active) {
           this.setState({ active: true });
@@ -520,21 +1185,78 @@ class ITagSearchBox extends Component<
         break;
     }
 
-    this.setState({ curPos: index });
+    box.setFocus(index, focusType);
+  };
+
+  // 聚焦指定位置的标签，超出末尾时聚焦输入框
+  private focusTag = (index: number) => {
+    const { tags } = this.props.box;
+    if (index >= tags.length) {
+      this.handleTagEvent("click-input", tags.length);
+      this.tagRefs[`tag-${tags.length}`]?.focusInput();
+      return;
+    }
+
+    this.props.box.setFocus(index, FocusPosType.TAG);
+    this.setState({ showSelect: false });
+    this.tagRefs[`tag-${index}`]?.focusTag();
+  };
+
+  getValuesCacheContext() {
+    const { valuesCache = true } = this.props;
+    if (!valuesCache) return undefined;
+
+    const {
+      ttl = DEFAULT_VALUES_CACHE_TTL,
+      staleWhileRevalidate = true,
+      cache = this.ownValuesCache,
+    } = valuesCache === true ? {} : valuesCache;
+    return { cache, ttl, staleWhileRevalidate };
+  }
+
+  /**
+   * 清除属性可选值缓存并重新加载正在展示的列表，不传 `key` 时刷新全部属性
+   */
+  refreshAttributeValues = (key?: string) => {
+    this.getValuesCacheContext()?.cache.invalidate(key);
   };
 
   render() {
     const {
       attributes = [],
       hideHelp,
-      tips = 'Separate keywords with "|"; press Enter to separate filter tags',
-      attributesSelectTips = "Select a filter",
+      tips,
+      attributesSelectTips,
       disableAttributesFilter,
+      filterFn,
+      validationMode,
       disabled,
       forwardRef,
+      rawQuery,
+      onValuesLoadError,
+      groupMode,
+      helpSections,
+      presets,
+      onPresetSave,
+      onPresetDelete,
+      box,
     } = this.props;
 
-    const { active, curPos, curPosType, showSelect, tags } = this.state;
+    const {
+      active,
+      showSelect,
+      rawMode,
+      rawText,
+      rawError,
+      showHelp,
+      announcement,
+    } = this.state;
+    const {
+      tags,
+      focusedIndex: curPos,
+      focusType: curPosType,
+    } = box;
+    const t = this.getTranslate();
 
     // 用于计算 focused 及 isFocused, 判断是否显示选择组件
     let focusedInputIndex = -1;
@@ -545,8 +1267,30 @@ class ITagSearchBox extends Component<
       focusedInputIndex = curPos;
     }
 
+    // 键盘导航聚焦的标签，未聚焦标签时 Tab 键可聚焦最后一个标签
+    const focusedTagIndex = curPosType === FocusPosType.TAG ? curPos : -1;
+    const tabbableTagIndex =
+      focusedTagIndex >= 0 ? focusedTagIndex : tags.length - 1;
+
     // 渲染标签列表
     const tagList = tags.map((item, index) => {
+      const token = item._group;
+      if (token) {
+        return (
+          <GroupToken
+            ref={(tag) => (this.tagRefs[`tag-${index}`] = tag) as any}
+            key={item._key}
+            token={token}
+            active={active}
+            focused={active && focusedTagIndex === index}
+            tabbable={active && tabbableTagIndex === index}
+            dispatchTagEvent={(type, payload) =>
+              this.handleTagEvent(type, index, payload)
+            }
+          />
+        );
+      }
+
       // 补全 attr 属性
       attributes.forEach((attrItem) => {
         if (item.attr && attrItem.key && attrItem.key == item.attr.key) {
@@ -559,8 +1303,7 @@ class ITagSearchBox extends Component<
         if (
           tag.attr &&
           item.attr &&
-          // @ts-ignore
-          item["_edit"] &&
+          item._edit &&
           item.attr.key === tag.attr.key
         ) {
           return null;
@@ -578,19 +1321,26 @@ class ITagSearchBox extends Component<
         <Tag
           ref={(tag) => (this.tagRefs[`tag-${index}`] = tag) as any}
           active={active}
-          // @ts-ignore
-          key={item["_key"]}
+          key={item._key}
           attributes={useableAttributes}
           attr={item.attr}
+          operator={item.operator}
+          negated={item.negated}
           values={item.values}
+          invalid={item._invalid}
           maxWidth={
             this.searchWrapRef.current
               ? this.searchWrapRef.current.clientWidth
               : null
           }
           focused={
-            focusedInputIndex === index && showSelect ? curPosType : null
+            active && focusedTagIndex === index
+              ? FocusPosType.TAG
+              : focusedInputIndex === index && showSelect
+              ? curPosType
+              : null
           }
+          tabbable={active && tabbableTagIndex === index}
           dispatchTagEvent={(type, payload) =>
             this.handleTagEvent(type, index, payload)
           }
@@ -627,133 +1377,228 @@ class ITagSearchBox extends Component<
     );
 
     return (
-      <div className="w-full">
-        <div
-          className={cn(
-            "w-full relative rounded-md border border-input",
-            "pl-2 py-0",
-            "bg-background text-sm leading-none",
-            "disabled:cursor-not-allowed disabled:opacity-50",
-            "box-border",
-            !active && ["overflow-hidden", "h-[34px]"],
-            !disabled && [
-              "cursor-text",
-              active && "border-primary",
-              active && "ring-4 ring-primary/20",
-            ]
-          )}
-          ref={mergeRefs(this.searchWrapRef, forwardRef)}
-          onClick={this.open}
-        >
+      <TagSearchBoxContext.Provider
+        value={{
+          t,
+          attributesSelectTips:
+            attributesSelectTips ?? t("attributesSelectTips"),
+          disableAttributesFilter,
+          filterFn,
+          validationMode,
+          close: this.close,
+          onValuesLoadError,
+          valuesCache: this.getValuesCacheContext(),
+          groupMode,
+          recentSearches: this.getRecentSearches(),
+          onRecentSelect: this.handleRecentSelect,
+          attributeGroups: this.getAttributeGroups(),
+          collapsedGroups: this.state.collapsedGroups,
+          onAttributeGroupToggle: this.handleAttributeGroupToggle,
+        }}
+      >
+        <div className="w-full">
           <div
-            className="inline-flex align-top flex-wrap"
-            ref={mergeRefs(this.searchBoxRef)}
+            role="status"
+            aria-live="polite"
+            aria-atomic
+            className="sr-only"
           >
-            <TagSearchBoxContext.Provider
-              value={{
-                attributesSelectTips,
-                disableAttributesFilter,
-                close: this.close,
-              }}
-            >
-              <React.Fragment>{tagList}</React.Fragment>
-            </TagSearchBoxContext.Provider>
+            {announcement}
           </div>
-
           <div
             className={cn(
-              "inline-block overflow-hidden",
-              "pointer-events-none text-muted-foreground/70 text-sm whitespace-nowrap",
-              "h-8 leading-8"
+              "w-full relative rounded-md border border-input",
+              "pl-2 py-0",
+              "bg-background text-sm leading-none",
+              "disabled:cursor-not-allowed disabled:opacity-50",
+              "box-border",
+              !active && ["overflow-hidden", "h-[34px]"],
+              !disabled && [
+                "cursor-text",
+                active && "border-primary",
+                active && "ring-4 ring-primary/20",
+              ]
             )}
+            ref={mergeRefs(this.searchWrapRef, forwardRef)}
+            onClick={this.open}
           >
-            {tips}
-          </div>
-
-          <div
-            className={cn(
-              "inline-block absolute right-0 h-8",
-              "bg-transparent"
-            )}
-          >
-            {!!active && tags.length > 0 && (
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 p-0 hover:bg-muted rounded-none"
-                      onClick={this.handleClear}
-                    >
-                      <X className="h-4 w-4" />
-                      <span className="sr-only">Clear</span>
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="text-xs">
-                    Clear all tags
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+            {rawMode ? (
+              <div className="flex items-center pr-32">
+                <Input
+                  ref={this.rawInputRef}
+                  value={rawText}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    this.setState({ rawText: e.target.value, rawError: null })
+                  }
+                  onKeyDown={this.handleRawKeyDown}
+                  className={cn(
+                    "h-8 w-full border-none p-0 text-sm",
+                    "bg-transparent shadow-none",
+                    "focus:outline-none focus:ring-0 focus-visible:ring-0",
+                    "font-mono"
+                  )}
+                  aria-invalid={!!rawError}
+                  data-type="raw-query-input"
+                />
+              </div>
+            ) : (
+              <React.Fragment>
+                <div
+                  className="inline-flex align-top flex-wrap"
+                  ref={mergeRefs(this.searchBoxRef)}
+                >
+                  {tagList}
+                </div>
+
+                <div
+                  className={cn(
+                    "inline-block overflow-hidden",
+                    "pointer-events-none text-muted-foreground/70 text-sm whitespace-nowrap",
+                    "h-8 leading-8"
+                  )}
+                >
+                  {tips ?? t("tips")}
+                </div>
+              </React.Fragment>
             )}
 
-            {!!active && !hideHelp && (
+            <div
+              className={cn(
+                "inline-block absolute right-0 h-8",
+                "bg-transparent"
+              )}
+            >
+              {!!active && tags.length > 0 && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 p-0 hover:bg-muted rounded-none"
+                        onClick={this.handleClear}
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">{t("clear")}</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" className="text-xs">
+                      {t("clearAll")}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
+              {!!active && (presets || onPresetSave) && (
+                <PresetMenu
+                  presets={presets ?? []}
+                  canSave={getTagsValue(tags).length > 0}
+                  onSave={onPresetSave && this.handlePresetSave}
+                  onApply={this.handlePresetApply}
+                  onDelete={onPresetDelete}
+                />
+              )}
+
+              {!!active && rawQuery && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className={cn(
+                          "h-8 w-8 p-0 hover:bg-muted rounded-none",
+                          rawMode && "text-primary"
+                        )}
+                        onClick={this.handleRawToggle}
+                      >
+                        <Code className="h-4 w-4" />
+                        <span className="sr-only">{t("toggleRawQuery")}</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" className="text-xs">
+                      {rawMode ? t("editAsTags") : t("editAsQuery")}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
+              {!!active && !hideHelp && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 p-0 hover:bg-muted rounded-none"
+                        onClick={this.handleHelp}
+                      >
+                        <Info className="h-4 w-4" />
+                        <span className="sr-only">{t("help")}</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" className="text-xs">
+                      {t("showHelp")}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button
                       variant="ghost"
                       size="icon"
-                      className="h-8 w-8 p-0 hover:bg-muted rounded-none"
-                      onClick={this.handleHelp}
+                      className={cn(
+                        "h-[30px] w-[30px] p-0 hover:bg-muted rounded-none rounded-r-md",
+                        active && "text-primary"
+                      )}
+                      disabled={disabled}
+                      onClick={this.handleSearch}
                     >
-                      <Info className="h-4 w-4" />
-                      <span className="sr-only">Help</span>
+                      <Search className="h-4 w-4" />
+                      <span className="sr-only">{t("search")}</span>
                     </Button>
                   </TooltipTrigger>
-                  <TooltipContent side="bottom" className="text-xs">
-                    Show help
-                  </TooltipContent>
+                  {active && (
+                    <TooltipContent side="bottom" className="text-xs">
+                      {t("search")}
+                    </TooltipContent>
+                  )}
                 </Tooltip>
               </TooltipProvider>
-            )}
-
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className={cn(
-                      "h-[30px] w-[30px] p-0 hover:bg-muted rounded-none rounded-r-md",
-                      active && "text-primary"
-                    )}
-                    disabled={disabled}
-                    onClick={this.handleSearch}
-                  >
-                    <Search className="h-4 w-4" />
-                    <span className="sr-only">Search</span>
-                  </Button>
-                </TooltipTrigger>
-                {active && (
-                  <TooltipContent side="bottom" className="text-xs">
-                    Search
-                  </TooltipContent>
-                )}
-              </Tooltip>
-            </TooltipProvider>
+            </div>
           </div>
-        </div>
 
-        <Dialog>
-          <DialogContent className="max-w-[600px]">
-            <DialogHeader>
-              <DialogTitle className="text-base">Help</DialogTitle>
-            </DialogHeader>
-            {/* <TagSearchBoxHelp /> */}
-          </DialogContent>
-        </Dialog>
-      </div>
+          {rawMode && rawError && (
+            <div className="mt-1 text-xs text-destructive">
+              {t("queryParseError", {
+                message: t(rawError.code, rawError.params),
+                position: rawError.position + 1,
+              })}
+            </div>
+          )}
+
+          <Dialog
+            open={showHelp}
+            onOpenChange={(open) => this.setState({ showHelp: open })}
+          >
+            <DialogContent className="max-w-[600px] ignore-outside-click">
+              <DialogHeader>
+                <DialogTitle className="text-base">{t("help")}</DialogTitle>
+              </DialogHeader>
+              <TagSearchBoxHelp
+                attributes={attributes}
+                groupMode={groupMode}
+                rawQuery={rawQuery}
+                sections={helpSections}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </TagSearchBoxContext.Provider>
     );
   }
 }
@@ -765,9 +1610,84 @@ export const TagSearchBoxWithOutsideClick = withOutsideClick("close")(
   }
 );
 
-export const TagSearchBox = forwardRef<HTMLDivElement, TagSearchBoxProps>(
+export const TagSearchBox = forwardRef<TagSearchBoxRef, TagSearchBoxProps>(
   (props, ref) => {
-    return <TagSearchBoxWithOutsideClick {...props} forwardRef={ref} />;
+    const {
+      attributes,
+      value,
+      defaultValue,
+      groupMode,
+      validationMode,
+      locale,
+      messages,
+    } = props;
+
+    // URL 中有标签时优先使用，受控时在外部更新 value 之前同样展示 URL 中的标签
+    const [initial] = useState(() => ({ urlTags: getUrlTags(props), value }));
+    const urlTags = initial.urlTags.length > 0 ? initial.urlTags : null;
+
+    const box = useTagSearchBox(attributes, {
+      value: urlTags && value && value === initial.value ? urlTags : value,
+      defaultValue: urlTags ?? defaultValue,
+      groupMode,
+      validationMode,
+      t: createTranslate(locale, messages),
+      onChange: (_, tags) => notifyChange(props, tags),
+    });
+
+    const componentRef = useRef<ITagSearchBox>(null);
+    const elementRef = useRef<HTMLDivElement>(null);
+
+    // 注册到 TagFilterProvider，供 FilterableCell 等外部内容添加标签
+    const filterTargetRef = useContext(TagFilterContext);
+    useEffect(() => {
+      if (!filterTargetRef) return;
+      const target: TagFilterTarget = {
+        attributes: attributes ?? [],
+        toggleFilter: (attr, value, negated) =>
+          componentRef.current?.toggleFilter(attr, value, negated) ??
+          Promise.resolve(),
+        t: createTranslate(locale, messages),
+      };
+      filterTargetRef.current = target;
+      return () => {
+        if (filterTargetRef.current === target) filterTargetRef.current = null;
+      };
+    }, [filterTargetRef, attributes, locale, messages]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        get element() {
+          return elementRef.current;
+        },
+        focus: () => componentRef.current?.focus(),
+        blur: () => componentRef.current?.blur(),
+        clear: () => componentRef.current?.clear(),
+        addTag: (tag) =>
+          componentRef.current?.addTag(tag) ?? Promise.resolve(),
+        commitInput: (text) =>
+          componentRef.current?.commitInput(text) ?? Promise.resolve(false),
+        removeTag: (key) =>
+          componentRef.current?.removeTag(key) ?? Promise.resolve(),
+        setTags: (tags) => box.setTags(tags),
+        getValue: () => box.value,
+        openAttribute: (key) => componentRef.current?.openAttribute(key),
+        search: () => componentRef.current?.search(),
+        refreshAttributeValues: (key) =>
+          componentRef.current?.refreshAttributeValues(key),
+      }),
+      [box]
+    );
+
+    return (
+      <TagSearchBoxWithOutsideClick
+        {...props}
+        ref={componentRef}
+        box={box}
+        forwardRef={elementRef}
+      />
+    );
   }
 );
 
@@ -0,0 +1,274 @@
+import React, { useContext } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { getAttrType } from "@/registry/new-york/tag-search-box/utils/AttributeType";
+import { OPERATOR_TEXT } from "@/registry/new-york/tag-search-box/utils/Operator";
+import { DEFAULT_DATE_FORMAT } from "@/registry/new-york/tag-search-box/utils/DateValue";
+import {
+  TagSearchBoxMessageKey,
+  Translate,
+} from "@/registry/new-york/tag-search-box/utils/Locale";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+export interface TagSearchBoxHelpSection {
+  /**
+   * 章节标题
+   */
+  title: React.ReactNode;
+  /**
+   * 章节内容
+   */
+  content: React.ReactNode;
+}
+
+export interface TagSearchBoxHelpProps {
+  /**
+   * 要展示的资源属性
+   */
+  attributes: AttributeValue[];
+  /**
+   * 是否展示分组语法
+   */
+  groupMode?: boolean;
+  /**
+   * 是否展示查询语句说明
+   */
+  rawQuery?: boolean;
+  /**
+   * 追加在内置章节之后的自定义章节
+   */
+  sections?: TagSearchBoxHelpSection[];
+}
+
+const TYPE_TEXT: Record<string, TagSearchBoxMessageKey> = {
+  input: "typeInput",
+  single: "typeSingle",
+  multiple: "typeMultiple",
+  render: "typeRender",
+  date: "typeDate",
+  dateRange: "typeDateRange",
+  number: "typeNumber",
+};
+
+/**
+ * 静态可选值最多展示的数量
+ */
+const MAX_VALUES = 5;
+
+const SHORTCUTS: [string, TagSearchBoxMessageKey][] = [
+  ["Enter / Tab", "shortcutConfirm"],
+  ["↑ / ↓", "shortcutMove"],
+  ["Backspace", "shortcutBackspace"],
+  ["← / →", "shortcutTagMove"],
+  ["Home / End", "shortcutHomeEnd"],
+  ["Enter", "shortcutEdit"],
+  ["!", "shortcutNegate"],
+  ["Delete", "shortcutDelete"],
+  ["Esc", "shortcutEscape"],
+];
+
+function getAllowedValues(attr: AttributeValue, t: Translate) {
+  const [type, options] = getAttrType(attr.type);
+
+  switch (type) {
+    case "date":
+    case "dateRange":
+      return t("valuesFormat", {
+        format: options.format ?? DEFAULT_DATE_FORMAT,
+      });
+
+    case "number": {
+      const { min, max, unit } = options;
+      if (min === undefined && max === undefined) {
+        return unit ?? t("anyNumber");
+      }
+      return `${min ?? "-∞"} – ${max ?? "∞"}${unit ? ` ${unit}` : ""}`;
+    }
+  }
+
+  if (typeof attr.values === "function") return t("loadedOnDemand");
+  if (!attr.values || attr.values.length <= 0) return t("anyText");
+
+  const names = attr.values.slice(0, MAX_VALUES).map((item) => item.name);
+  const rest = attr.values.length - names.length;
+  const more = rest > 0 ? `, ${t("moreValues", { count: rest })}` : "";
+  return names.join(", ") + more;
+}
+
+/**
+ * 将文案中的占位符替换为对应节点
+ */
+function renderMessage(
+  message: string,
+  nodes: Record<string, React.ReactNode>
+) {
+  return message.split(/\{(\w+)\}/g).map((part, index) =>
+    index % 2 === 1 ? (
+      <React.Fragment key={index}>{nodes[part]}</React.Fragment>
+    ) : (
+      part
+    )
+  );
+}
+
+const Code = ({ children }: { children: React.ReactNode }) => (
+  <code className="rounded bg-muted px-1 py-0.5 font-mono text-xs">
+    {children}
+  </code>
+);
+
+const Section = ({
+  title,
+  children,
+}: {
+  title: React.ReactNode;
+  children: React.ReactNode;
+}) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-medium">{title}</h3>
+    <div className="text-sm text-muted-foreground">{children}</div>
+  </section>
+);
+
+/**
+ * 搜索框帮助内容，根据资源属性生成
+ */
+export const TagSearchBoxHelp = ({
+  attributes,
+  groupMode,
+  rawQuery,
+  sections = [],
+}: TagSearchBoxHelpProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  const example = attributes[0]?.name ?? "Status";
+
+  return (
+    <ScrollArea className="max-h-[70vh] pr-3">
+      <div className="space-y-5">
+        {attributes.length > 0 && (
+          <Section title={t("helpAttributes")}>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("helpName")}</TableHead>
+                  <TableHead>{t("helpType")}</TableHead>
+                  <TableHead>{t("helpValues")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attributes.map((attr) => (
+                  <TableRow key={attr.key}>
+                    <TableCell className="align-top">
+                      <div className="font-medium text-foreground">
+                        {attr.name}
+                      </div>
+                      {!!attr.aliases?.length && (
+                        <div className="mt-0.5 flex flex-wrap gap-1">
+                          {attr.aliases.map((alias) => (
+                            <Code key={alias}>{alias}</Code>
+                          ))}
+                        </div>
+                      )}
+                      {attr.description && (
+                        <div className="whitespace-normal text-xs text-muted-foreground">
+                          {attr.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {t(TYPE_TEXT[getAttrType(attr.type)[0]] ?? "typeRender")}
+                      {!!attr.operators?.length && (
+                        <div className="text-xs text-muted-foreground">
+                          {attr.operators
+                            .map((op) => OPERATOR_TEXT[op])
+                            .join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-normal align-top">
+                      {getAllowedValues(attr, t)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Section>
+        )}
+
+        <Section title={t("helpSyntax")}>
+          <ul className="list-disc space-y-1 pl-5">
+            <li>
+              {renderMessage(t("syntaxAttribute"), {
+                example: <Code>{example}: value</Code>,
+              })}
+            </li>
+            <li>
+              {renderMessage(t("syntaxMultiple"), {
+                separator: <Code>|</Code>,
+                example: <Code>{example}: a | b</Code>,
+              })}
+            </li>
+            <li>
+              {renderMessage(t("syntaxNegation"), {
+                minus: <Code>-</Code>,
+                bang: <Code>!</Code>,
+                example: <Code>-{example}: a</Code>,
+              })}
+            </li>
+            <li>{t("syntaxAnd")}</li>
+            {groupMode && (
+              <li>
+                {renderMessage(t("syntaxGroup"), {
+                  or: <Code>|</Code>,
+                  open: <Code>(</Code>,
+                  close: <Code>)</Code>,
+                })}
+              </li>
+            )}
+            {rawQuery && (
+              <li>
+                {renderMessage(t("syntaxRawQuery"), {
+                  example: <Code>status:running region:(east|west)</Code>,
+                })}
+              </li>
+            )}
+          </ul>
+        </Section>
+
+        <Section title={t("helpShortcuts")}>
+          <Table>
+            <TableBody>
+              {[
+                ...SHORTCUTS.map(([key, text]) => [key, t(text)]),
+                [t("shortcutClickKey"), t("shortcutClick")],
+              ].map(([key, text]) => (
+                <TableRow key={key}>
+                  <TableCell className="w-[120px]">
+                    <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                      {key}
+                    </kbd>
+                  </TableCell>
+                  <TableCell className="whitespace-normal">{text}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        {sections.map((section, index) => (
+          <Section key={index} title={section.title}>
+            {section.content}
+          </Section>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
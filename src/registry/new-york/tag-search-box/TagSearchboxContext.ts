@@ -1,9 +1,43 @@
 import { createContext } from "react";
+import {
+  AttributeGroup,
+  AttributeValue,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { ValuesCache } from "@/registry/new-york/tag-search-box/utils/ValuesCache";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import { FilterFn } from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import { ValidationMode } from "@/registry/new-york/tag-search-box/utils/Validate";
+import {
+  defaultTranslate,
+  Translate,
+} from "@/registry/new-york/tag-search-box/utils/Locale";
+
+export interface RecentSearch {
+  label: string;
+  tags: TagValue[];
+}
 
 export interface TagSearchBoxContextValue {
+  t: Translate;
   attributesSelectTips?: string;
   disableAttributesFilter?: boolean;
+  filterFn?: FilterFn;
+  validationMode?: ValidationMode;
   close?: () => void;
+  onValuesLoadError?: (attr: AttributeValue, error: unknown) => void;
+  valuesCache?: {
+    cache: ValuesCache;
+    ttl: number;
+    staleWhileRevalidate: boolean;
+  };
+  groupMode?: boolean;
+  recentSearches?: RecentSearch[];
+  onRecentSelect?: (tags: TagValue[]) => void;
+  attributeGroups?: AttributeGroup[];
+  collapsedGroups?: string[];
+  onAttributeGroupToggle?: (key: string) => void;
 }
 
-export const TagSearchBoxContext = createContext<TagSearchBoxContextValue>({});
+export const TagSearchBoxContext = createContext<TagSearchBoxContextValue>({
+  t: defaultTranslate,
+});
@@ -1 +1,13 @@
-export * from "./TagSearchBox";
\ No newline at end of file
+export * from "./TagSearchBox";
+export * from "./useTagSearchBox";
+export * from "./FilterableCell";
+export * from "./utils/TagFilter";
+export * from "./utils/UrlQuery";
+export * from "./utils/QueryGrammar";
+export * from "./utils/ValuesCache";
+export * from "./utils/TagExpression";
+export * from "./utils/SearchHistory";
+export * from "./utils/SearchFilter";
+export * from "./utils/Validate";
+export * from "./utils/InputTag";
+export * from "./utils/Locale";
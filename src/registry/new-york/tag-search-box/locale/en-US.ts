@@ -0,0 +1,129 @@
+/**
+ * 英文内置文案，同时作为文案 key 的定义
+ */
+export const enUS = {
+  // 搜索框
+  tips: 'Separate keywords with "|"; press Enter to separate filter tags',
+  attributesSelectTips: "Select a filter",
+  clear: "Clear",
+  clearAll: "Clear all tags",
+  toggleRawQuery: "Toggle raw query",
+  editAsTags: "Edit as tags",
+  editAsQuery: "Edit as query",
+  help: "Help",
+  showHelp: "Show help",
+  search: "Search",
+
+  // 无障碍播报
+  announceTagAdded: "tag {label} added",
+  announceTagUpdated: "tag {label} updated",
+  announceTagRemoved: "tag {label} removed",
+  announceGroupAdded: "group token added",
+  announceGroupRemoved: "group token removed",
+  announceCleared: "All filters cleared",
+  announceFilterCount: {
+    one: "{message}, {count} filter",
+    other: "{message}, {count} filters",
+  },
+
+  // 预设
+  presets: "Presets",
+  deletePreset: "Delete preset",
+  noPresets: "No presets",
+  presetNamePlaceholder: "Save current filters as...",
+  savePreset: "Save",
+
+  // 标签
+  tag: "tag",
+  negation: "NOT",
+  includeMatching: "Click to include matching values",
+  excludeMatching: "Click to exclude matching values",
+  removeTag: "Remove tag",
+  clickToRemoveTag: "Click to remove tag",
+  clickToModify: "Click to modify. Press Enter to finish.",
+  groupOr: "OR",
+  groupOpen: "Open group",
+  groupClose: "Close group",
+  remove: "Remove",
+
+  // 输入框及下拉列表
+  addFilter: "Add filter",
+  editFilter: "Edit filter",
+  validating: "Validating...",
+  invalidValue: 'Invalid value "{value}"',
+  attributes: "Attributes",
+  recent: "Recent",
+  operators: "Operators",
+  values: "Values",
+  searchPlaceholder: "Search...",
+  noMatch: "No matching results",
+  selectAll: "Select All",
+  ok: "OK",
+  cancel: "Cancel",
+  empty: "Empty",
+  loading: "Loading...",
+  loadFailed: "Failed to load",
+  retry: "Retry",
+  numberRangeHint: "Enter a number or range between {min} and {max}",
+  today: "Today",
+  yesterday: "Yesterday",
+  lastHours: { one: "Last hour", other: "Last {count} hours" },
+  lastDays: { one: "Last day", other: "Last {count} days" },
+
+  // 点击筛选
+  filterBy: "Filter by this value",
+  filterOut: "Filter out this value",
+
+  // 帮助
+  helpAttributes: "Attributes",
+  helpName: "Name",
+  helpType: "Type",
+  helpValues: "Values",
+  typeInput: "Text",
+  typeSingle: "Single choice",
+  typeMultiple: "Multiple choice",
+  typeRender: "Custom",
+  typeDate: "Date",
+  typeDateRange: "Date range",
+  typeNumber: "Number",
+  valuesFormat: "Format {format}",
+  anyNumber: "Any number",
+  anyText: "Any text",
+  loadedOnDemand: "Loaded on demand",
+  moreValues: "+{count} more",
+  helpSyntax: "Syntax",
+  syntaxAttribute:
+    "{example} filters by an attribute; text without an attribute is searched as a keyword.",
+  syntaxMultiple:
+    "Separate multiple values with {separator}, e.g. {example} matches either value.",
+  syntaxNegation:
+    "Start with {minus} or {bang}, e.g. {example}, to exclude matching values.",
+  syntaxAnd: "Different tags are combined with AND.",
+  syntaxGroup:
+    "With an empty input, type {or} to insert OR, and {open} {close} to group tags.",
+  syntaxRawQuery:
+    "Switch to query mode to edit all tags as text, e.g. {example}.",
+  helpShortcuts: "Keyboard shortcuts",
+  shortcutConfirm: "Create the tag or confirm the selection",
+  shortcutMove: "Move through the dropdown options",
+  shortcutBackspace: "Remove the previous tag when the input is empty",
+  shortcutTagMove: "Move between tags from the start of the input",
+  shortcutHomeEnd: "Jump to the first or last tag",
+  shortcutEdit: "Edit the focused tag",
+  shortcutNegate: "Toggle excluding the focused tag's values",
+  shortcutDelete: "Remove the focused tag",
+  shortcutEscape: "Cancel the current input, or close the search box",
+  shortcutClickKey: "Click a tag",
+  shortcutClick: "Edit its attribute or values",
+
+  // 查询语句解析错误
+  queryParseError: "{message} (at position {position})",
+  parseUnknownAttribute: 'Unknown attribute "{name}"',
+  parseUnsupportedOperator:
+    'Attribute "{attr}" does not support operator "{operator}"',
+  parseMissingParen: 'Missing closing ")"',
+  parseUnexpected: 'Unexpected "{char}"',
+  parseMissingValue: "Missing value",
+  parseUnterminatedQuote: "Unterminated quoted value",
+  parseInvalidValue: 'Invalid value "{value}" for attribute "{attr}"',
+};
@@ -0,0 +1,122 @@
+import type { TagSearchBoxMessages } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 中文内置文案
+ */
+export const zhCN: TagSearchBoxMessages = {
+  // 搜索框
+  tips: '多个关键字用竖线 "|" 分隔，多个过滤标签用回车键分隔',
+  attributesSelectTips: "选择资源属性进行过滤",
+  clear: "清空",
+  clearAll: "清空所有标签",
+  toggleRawQuery: "切换查询语句模式",
+  editAsTags: "以标签编辑",
+  editAsQuery: "以查询语句编辑",
+  help: "帮助",
+  showHelp: "查看帮助",
+  search: "搜索",
+
+  // 无障碍播报
+  announceTagAdded: "已添加标签 {label}",
+  announceTagUpdated: "已修改标签 {label}",
+  announceTagRemoved: "已删除标签 {label}",
+  announceGroupAdded: "已添加分组符号",
+  announceGroupRemoved: "已删除分组符号",
+  announceCleared: "已清空所有标签",
+  announceFilterCount: "{message}，共 {count} 个过滤条件",
+
+  // 预设
+  presets: "常用筛选",
+  deletePreset: "删除常用筛选",
+  noPresets: "暂无常用筛选",
+  presetNamePlaceholder: "将当前筛选保存为...",
+  savePreset: "保存",
+
+  // 标签
+  tag: "标签",
+  negation: "非",
+  includeMatching: "点击改为包含匹配的值",
+  excludeMatching: "点击排除匹配的值",
+  removeTag: "删除标签",
+  clickToRemoveTag: "点击删除标签",
+  clickToModify: "点击进行修改，按回车键完成修改",
+  groupOr: "或",
+  groupOpen: "左括号",
+  groupClose: "右括号",
+  remove: "删除",
+
+  // 输入框及下拉列表
+  addFilter: "添加过滤条件",
+  editFilter: "修改过滤条件",
+  validating: "校验中...",
+  invalidValue: '值 "{value}" 不合法',
+  attributes: "属性",
+  recent: "最近搜索",
+  operators: "运算符",
+  values: "可选值",
+  searchPlaceholder: "搜索...",
+  noMatch: "没有匹配的结果",
+  selectAll: "全选",
+  ok: "确定",
+  cancel: "取消",
+  empty: "暂无数据",
+  loading: "加载中...",
+  loadFailed: "加载失败",
+  retry: "重试",
+  numberRangeHint: "请输入 {min} 到 {max} 之间的数字或范围",
+  today: "今天",
+  yesterday: "昨天",
+  lastHours: "最近 {count} 小时",
+  lastDays: "最近 {count} 天",
+
+  // 点击筛选
+  filterBy: "按此值筛选",
+  filterOut: "排除此值",
+
+  // 帮助
+  helpAttributes: "属性",
+  helpName: "名称",
+  helpType: "类型",
+  helpValues: "可选值",
+  typeInput: "文本",
+  typeSingle: "单选",
+  typeMultiple: "多选",
+  typeRender: "自定义",
+  typeDate: "日期",
+  typeDateRange: "日期范围",
+  typeNumber: "数字",
+  valuesFormat: "格式 {format}",
+  anyNumber: "任意数字",
+  anyText: "任意文本",
+  loadedOnDemand: "按需加载",
+  moreValues: "等 {count} 项",
+  helpSyntax: "语法",
+  syntaxAttribute: "{example} 按属性过滤，未指定属性的文本作为关键字搜索。",
+  syntaxMultiple: "多个值用 {separator} 分隔，如 {example} 匹配其中任一值。",
+  syntaxNegation: "以 {minus} 或 {bang} 开头排除匹配的值，如 {example}。",
+  syntaxAnd: "不同标签之间为“且”的关系。",
+  syntaxGroup: "输入框为空时，输入 {or} 插入“或”，输入 {open} {close} 对标签分组。",
+  syntaxRawQuery: "切换到查询语句模式可将所有标签作为文本编辑，如 {example}。",
+  helpShortcuts: "快捷键",
+  shortcutConfirm: "生成标签或确认选择",
+  shortcutMove: "在下拉选项间移动",
+  shortcutBackspace: "输入框为空时删除前一个标签",
+  shortcutTagMove: "光标位于开头时在标签间移动",
+  shortcutHomeEnd: "跳转到第一个或最后一个标签",
+  shortcutEdit: "修改当前聚焦的标签",
+  shortcutNegate: "切换是否排除当前聚焦标签的值",
+  shortcutDelete: "删除当前聚焦的标签",
+  shortcutEscape: "取消当前输入，或收起搜索框",
+  shortcutClickKey: "点击标签",
+  shortcutClick: "修改标签的属性或值",
+
+  // 查询语句解析错误
+  queryParseError: "{message}（第 {position} 个字符）",
+  parseUnknownAttribute: '未知属性 "{name}"',
+  parseUnsupportedOperator: '属性 "{attr}" 不支持运算符 "{operator}"',
+  parseMissingParen: '缺少右括号 ")"',
+  parseUnexpected: '无法识别的字符 "{char}"',
+  parseMissingValue: "缺少值",
+  parseUnterminatedQuote: "引号未闭合",
+  parseInvalidValue: '属性 "{attr}" 的值 "{value}" 不合法',
+};
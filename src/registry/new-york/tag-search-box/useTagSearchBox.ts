@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import clone from "clone";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagGroupToken } from "@/registry/new-york/tag-search-box/utils/TagExpression";
+import { resolveInputTag } from "@/registry/new-york/tag-search-box/utils/InputTag";
+import { ValidationMode } from "@/registry/new-york/tag-search-box/utils/Validate";
+import { Translate } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 焦点所在位置类型
+ */
+export enum FocusPosType {
+  INPUT = 0,
+  INPUT_EDIT = 1,
+  TAG = 2,
+}
+
+let COUNTER = 0;
+
+/**
+ * 搜索框内部保存的标签，附带渲染及编辑所需的状态
+ */
+export type InternalTag = TagValue & {
+  /**
+   * 渲染时使用的唯一 key
+   */
+  _key: number;
+  /**
+   * 是否处于编辑状态
+   */
+  _edit?: boolean;
+  /**
+   * 分组模式下的分隔符，存在时该项不是标签
+   */
+  _group?: TagGroupToken;
+  /**
+   * 校验未通过时的提示信息
+   */
+  _invalid?: string | null;
+};
+
+export interface UseTagSearchBoxOptions {
+  /**
+   * 配合 onChange 作为受控使用
+   */
+  value?: TagValue[];
+  /**
+   * 默认包含的标签值的集合
+   */
+  defaultValue?: TagValue[];
+  /**
+   * 当新增/修改/减少标签时调用，`tags` 为包含分组分隔符的完整标签列表
+   */
+  onChange?: (value: TagValue[], tags: InternalTag[]) => void;
+  /**
+   * 是否开启分组模式，受控时据此保留分组分隔符
+   *
+   * @default false
+   */
+  groupMode?: boolean;
+  /**
+   * `commitInput` 校验失败时的处理方式，`mark` 模式下仍生成标签并记录错误信息
+   *
+   * @default "block"
+   */
+  validationMode?: ValidationMode;
+  /**
+   * 校验错误信息使用的文案
+   */
+  t?: Translate;
+}
+
+export interface SetTagsOptions {
+  /**
+   * 是否触发 onChange
+   *
+   * @default true
+   */
+  notify?: boolean;
+}
+
+export interface TagSearchBoxInstance {
+  /**
+   * 当前标签，分组模式下包含分组分隔符
+   */
+  tags: InternalTag[];
+  /**
+   * 当前标签值，不含分组分隔符及未填写值的标签
+   */
+  value: TagValue[];
+  /**
+   * 焦点所在位置，等于 `tags.length` 时表示末尾的输入框
+   */
+  focusedIndex: number;
+  /**
+   * 焦点所在位置类型
+   */
+  focusType: FocusPosType;
+  /**
+   * 正在编辑的标签位置，未编辑时为 `-1`
+   */
+  editingIndex: number;
+  /**
+   * 移动焦点，不传 `type` 时保持当前类型
+   */
+  setFocus: (index: number, type?: FocusPosType) => void;
+  /**
+   * 替换全部标签，可传入函数基于最新标签计算，返回的 Promise 在渲染完成及 onChange 调用后 resolve
+   */
+  setTags: (
+    tags: TagValue[] | ((tags: InternalTag[]) => TagValue[]),
+    options?: SetTagsOptions
+  ) => Promise<void>;
+  /**
+   * 在指定位置插入标签，默认插入到末尾
+   */
+  addTag: (tag: TagValue, index?: number) => Promise<void>;
+  /**
+   * 修改指定位置的标签并结束编辑
+   */
+  editTag: (index: number, tag: TagValue) => Promise<void>;
+  /**
+   * 删除指定位置的标签，`removeable` 为 `false` 的标签不会被删除
+   */
+  removeTag: (index: number) => Promise<void>;
+  /**
+   * 进入编辑状态
+   */
+  startEdit: (index: number) => Promise<void>;
+  /**
+   * 取消编辑，不触发 onChange
+   */
+  cancelEdit: (index: number) => Promise<void>;
+  /**
+   * 按输入框的写法解析文本并生成标签，如 `Status: running | stopped`，未匹配属性时作为关键字
+   *
+   * 与输入框使用相同的解析及校验，返回的 Promise resolve 为是否生成了标签
+   */
+  commitInput: (text: string, index?: number) => Promise<boolean>;
+  /**
+   * 清空标签，保留 `removeable` 为 `false` 的标签
+   */
+  clear: () => Promise<void>;
+}
+
+/**
+ * 获取标签值，去除分组分隔符及未填写值的标签
+ */
+export function getTagsValue(tags: Partial<InternalTag>[]) {
+  const result: Partial<InternalTag>[] = [];
+
+  tags.forEach((item) => {
+    const { values, attr = undefined, operator, negated } = item;
+    if (values && values.length > 0) {
+      result.push({
+        attr,
+        ...(operator ? { operator } : {}),
+        ...(attr && negated ? { negated } : {}),
+        values,
+        _key: item._key,
+        _edit: item._edit,
+        _invalid: item._invalid,
+      });
+    }
+  });
+
+  return result;
+}
+
+// 为缺少 `_key` 的标签分配 key
+function withKeys(tags: TagValue[]): InternalTag[] {
+  return tags.map((item) => {
+    if ("_key" in item) return item as InternalTag;
+    return { ...clone(item), _key: COUNTER++ };
+  });
+}
+
+// 受控时 value 中不包含分隔符，按分隔符之前的标签重新插入
+function mergeGroupTokens(tags: InternalTag[], source: InternalTag[]) {
+  const keys = new Set(tags.map((item) => item._key));
+  const anchors = new Map<number | null, InternalTag[]>();
+  let anchor: number | null = null;
+
+  source.forEach((item) => {
+    if (item._group) {
+      anchors.set(anchor, [...(anchors.get(anchor) ?? []), item]);
+    } else if (keys.has(item._key)) {
+      anchor = item._key;
+    }
+  });
+
+  const result = [...(anchors.get(null) ?? [])];
+  tags.forEach((item) => {
+    result.push(item, ...(anchors.get(item._key) ?? []));
+  });
+  return result;
+}
+
+/**
+ * 标签搜索框的状态及操作，不包含任何 UI，可用于自定义标签布局
+ *
+ * `TagSearchBox` 基于此实现
+ */
+export function useTagSearchBox(
+  attributes: AttributeValue[] = [],
+  options: UseTagSearchBoxOptions = {}
+): TagSearchBoxInstance {
+  const { value, defaultValue = [], groupMode = false } = options;
+
+  const [tags, setTagsState] = useState(() =>
+    withKeys(clone(value ?? defaultValue))
+  );
+  const [focus, setFocusState] = useState({
+    index: 0,
+    type: FocusPosType.INPUT,
+  });
+
+  // 同步记录最新标签，连续调用的操作基于上一次的结果
+  const tagsRef = useRef(tags);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const attributesRef = useRef(attributes);
+  attributesRef.current = attributes;
+
+  // 等待渲染完成后执行的回调
+  const pendingRef = useRef<(() => void)[]>([]);
+
+  const commit = useCallback((next: InternalTag[]) => {
+    tagsRef.current = next;
+    setTagsState(next);
+  }, []);
+
+  // 受控时从 value 恢复标签
+  const getControlledTags = useCallback(
+    (source: InternalTag[]) => {
+      const tags = withKeys(clone(optionsRef.current.value ?? []));
+      return groupMode ? mergeGroupTokens(tags, source) : tags;
+    },
+    [groupMode]
+  );
+
+  const lastValueRef = useRef(value);
+  useEffect(() => {
+    if (value === lastValueRef.current) return;
+    lastValueRef.current = value;
+    commit(getControlledTags(tagsRef.current));
+  }, [value, commit, getControlledTags]);
+
+  useEffect(() => {
+    if (pendingRef.current.length <= 0) return;
+    const callbacks = pendingRef.current;
+    pendingRef.current = [];
+    setTimeout(() => callbacks.forEach((callback) => callback()), 0);
+  });
+
+  const setTags = useCallback(
+    (
+      newTags: TagValue[] | ((tags: InternalTag[]) => TagValue[]),
+      { notify = true }: SetTagsOptions = {}
+    ) => {
+      const next = withKeys(
+        typeof newTags === "function" ? newTags(tagsRef.current) : newTags
+      );
+      const controlled = !!optionsRef.current.value;
+
+      // 受控模式下等待外部更新 value
+      commit(notify && controlled ? getControlledTags(next) : next);
+
+      return new Promise<void>((resolve) => {
+        pendingRef.current.push(() => {
+          if (notify) {
+            optionsRef.current.onChange?.(getTagsValue(next), next);
+          }
+          resolve();
+        });
+      });
+    },
+    [commit, getControlledTags]
+  );
+
+  const setFocus = useCallback((index: number, type?: FocusPosType) => {
+    setFocusState((focus) => ({ index, type: type ?? focus.type }));
+  }, []);
+
+  const addTag = useCallback(
+    (tag: TagValue, index = tagsRef.current.length) => {
+      const newTags: TagValue[] = [...tagsRef.current];
+      newTags.splice(index, 0, tag);
+      return setTags(newTags);
+    },
+    [setTags]
+  );
+
+  const editTag = useCallback(
+    (index: number, tag: TagValue) => {
+      const newTags = clone(tagsRef.current);
+      if (!newTags[index]) return Promise.resolve();
+
+      newTags[index] = { ...newTags[index], ...tag, _edit: false };
+      return setTags(newTags);
+    },
+    [setTags]
+  );
+
+  const removeTag = useCallback(
+    (index: number) => {
+      const tag = tagsRef.current[index];
+      if (!tag || tag.attr?.removeable === false) return Promise.resolve();
+
+      const newTags = [...tagsRef.current];
+      newTags.splice(index, 1);
+      return setTags(newTags);
+    },
+    [setTags]
+  );
+
+  const setEditing = useCallback(
+    (index: number, editing: boolean) => {
+      const newTags = clone(tagsRef.current);
+      if (!newTags[index]) return Promise.resolve();
+
+      newTags[index]._edit = editing;
+      return setTags(newTags, { notify: false });
+    },
+    [setTags]
+  );
+
+  const startEdit = useCallback(
+    (index: number) => setEditing(index, true),
+    [setEditing]
+  );
+
+  const cancelEdit = useCallback(
+    (index: number) => setEditing(index, false),
+    [setEditing]
+  );
+
+  const commitInput = useCallback(
+    async (text: string, index?: number) => {
+      const { validationMode, t } = optionsRef.current;
+      // 与输入框相同，不可重复使用且已有标签的属性不再匹配
+      const usedKeys = tagsRef.current
+        .filter((tag) => tag.attr && !tag.attr.reusable)
+        .map((tag) => tag.attr?.key);
+      const result = await resolveInputTag(
+        text.trim(),
+        attributesRef.current.filter((attr) => !usedKeys.includes(attr.key)),
+        validationMode,
+        t
+      );
+      if (!result) return false;
+
+      const tag: Partial<InternalTag> = { ...result.tag };
+      if (result.error) tag._invalid = result.error;
+      await addTag(tag, index);
+      return true;
+    },
+    [addTag]
+  );
+
+  const clear = useCallback(() => {
+    setFocus(0, FocusPosType.INPUT);
+    return setTags(
+      tagsRef.current.filter((item) => item.attr?.removeable === false)
+    );
+  }, [setFocus, setTags]);
+
+  const editingIndex = tags.findIndex((item) => !!item._edit);
+
+  return useMemo(
+    () => ({
+      tags,
+      value: getTagsValue(tags),
+      focusedIndex: focus.index,
+      focusType: focus.type,
+      editingIndex,
+      setFocus,
+      setTags,
+      addTag,
+      editTag,
+      removeTag,
+      startEdit,
+      cancelEdit,
+      commitInput,
+      clear,
+    }),
+    [
+      tags,
+      focus,
+      editingIndex,
+      setFocus,
+      setTags,
+      addTag,
+      editTag,
+      removeTag,
+      startEdit,
+      cancelEdit,
+      commitInput,
+      clear,
+    ]
+  );
+}
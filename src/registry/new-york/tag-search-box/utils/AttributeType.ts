@@ -0,0 +1,59 @@
+import {
+  AttributeType,
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import {
+  parseDateRangeValue,
+  parseDateValue,
+} from "@/registry/new-york/tag-search-box/utils/DateValue";
+import { parseNumberValue } from "@/registry/new-york/tag-search-box/utils/NumberValue";
+
+/**
+ * 获取属性类型及其配置
+ */
+export function getAttrType(
+  type: AttributeValue["type"]
+): [AttributeType, Record<string, any>] {
+  if (Array.isArray(type)) {
+    return [type[0], type[1] ?? {}];
+  }
+  return [type, {}];
+}
+
+/**
+ * 按字符串匹配属性的静态可选值，优先按 key 其次按名称，未匹配时返回 `undefined`
+ */
+export function findStaticValue(
+  attr: AttributeValue,
+  str: string
+): Value | undefined {
+  const values = Array.isArray(attr.values) ? attr.values : [];
+  return (
+    values.find((item) => item.key === str) ??
+    values.find((item) => item.name === str)
+  );
+}
+
+/**
+ * 将输入字符串解析为结构化的属性值
+ *
+ * 返回 `undefined` 表示该属性类型无需解析，返回 `null` 表示输入不合法
+ */
+export function parseAttrValue(
+  attr: AttributeValue,
+  str: string
+): Value | null | undefined {
+  const [type, options] = getAttrType(attr.type);
+
+  switch (type) {
+    case "date":
+      return parseDateValue(str, options);
+    case "dateRange":
+      return parseDateRangeValue(str, options);
+    case "number":
+      return parseNumberValue(str, options);
+    default:
+      return undefined;
+  }
+}
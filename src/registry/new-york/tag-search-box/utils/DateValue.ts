@@ -0,0 +1,170 @@
+import {
+  endOfDay,
+  format,
+  isAfter,
+  isBefore,
+  isValid,
+  parse,
+  parseISO,
+  startOfDay,
+  subDays,
+  subHours,
+} from "date-fns";
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { Translate } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+export interface DatePreset {
+  /**
+   * 预设展示名称
+   */
+  name: string;
+  /**
+   * 计算预设值，日期范围类型需返回 `[开始, 结束]`
+   */
+  value: () => Date | [Date, Date];
+}
+
+export interface DateTypeOptions {
+  /**
+   * 日期展示及手动输入格式（date-fns 格式）
+   * @default "yyyy-MM-dd"
+   */
+  format?: string;
+  /**
+   * 可选的最早日期
+   */
+  min?: Date;
+  /**
+   * 可选的最晚日期
+   */
+  max?: Date;
+  /**
+   * 快捷选项，传入空数组隐藏
+   */
+  presets?: DatePreset[];
+}
+
+export const DEFAULT_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * 日期范围分隔符，如 `2026-01-01 ~ 2026-02-01`
+ */
+export const DATE_RANGE_SEPARATOR = "~";
+
+/**
+ * 默认快捷选项，名称使用当前语言的文案
+ */
+export function getDefaultDatePresets(
+  t: Translate,
+  range = false
+): DatePreset[] {
+  if (!range) {
+    return [
+      { name: t("today"), value: () => startOfDay(new Date()) },
+      {
+        name: t("yesterday"),
+        value: () => startOfDay(subDays(new Date(), 1)),
+      },
+    ];
+  }
+
+  return [
+    {
+      name: t("lastHours", { count: 24 }),
+      value: () => [subHours(new Date(), 24), new Date()],
+    },
+    {
+      name: t("lastDays", { count: 7 }),
+      value: () => [startOfDay(subDays(new Date(), 6)), endOfDay(new Date())],
+    },
+    {
+      name: t("lastDays", { count: 30 }),
+      value: () => [startOfDay(subDays(new Date(), 29)), endOfDay(new Date())],
+    },
+  ];
+}
+
+// 完整的 ISO 日期，如 `2024-05-01` 或 `2024-05-01T08:00:00.000Z`
+const ISO_DATE_REGEXP = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isInBounds(date: Date, { min, max }: DateTypeOptions) {
+  if (min && isBefore(date, startOfDay(min))) return false;
+  if (max && isAfter(date, endOfDay(max))) return false;
+  return true;
+}
+
+/**
+ * 解析单个日期，依次尝试配置的格式及 ISO 格式
+ */
+export function parseDate(str: string, options: DateTypeOptions = {}) {
+  const text = str.trim();
+  if (!text) return null;
+
+  let date = parse(text, options.format ?? DEFAULT_DATE_FORMAT, new Date());
+  // 不使用 `new Date` 的宽松解析，避免 `1`、`March` 等输入被识别为日期
+  if (!isValid(date) && ISO_DATE_REGEXP.test(text)) {
+    date = parseISO(text);
+  }
+  if (!isValid(date) || !isInBounds(date, options)) return null;
+
+  return date;
+}
+
+/**
+ * 生成日期类型的值
+ */
+export function createDateValue(date: Date, options: DateTypeOptions = {}): Value {
+  return {
+    key: date.toISOString(),
+    name: format(date, options.format ?? DEFAULT_DATE_FORMAT),
+    date,
+  };
+}
+
+/**
+ * 生成日期范围类型的值
+ */
+export function createDateRangeValue(
+  from: Date,
+  to: Date,
+  options: DateTypeOptions = {}
+): Value {
+  const fmt = options.format ?? DEFAULT_DATE_FORMAT;
+  return {
+    key: `${from.toISOString()}${DATE_RANGE_SEPARATOR}${to.toISOString()}`,
+    name: `${format(from, fmt)} ${DATE_RANGE_SEPARATOR} ${format(to, fmt)}`,
+    date: [from, to],
+  };
+}
+
+/**
+ * 将输入解析为日期值，不合法或超出范围时返回 `null`
+ */
+export function parseDateValue(str: string, options: DateTypeOptions = {}) {
+  const date = parseDate(str, options);
+  return date ? createDateValue(date, options) : null;
+}
+
+/**
+ * 将 `开始 ~ 结束` 形式的输入解析为日期范围值
+ *
+ * 仅包含日期部分的边界按整天处理
+ */
+export function parseDateRangeValue(
+  str: string,
+  options: DateTypeOptions = {}
+) {
+  const parts = str.split(DATE_RANGE_SEPARATOR);
+  if (parts.length !== 2) return null;
+
+  const from = parseDate(parts[0], options);
+  const to = parseDate(parts[1], options);
+  if (!from || !to || isAfter(from, to)) return null;
+
+  const hasTime = (text: string) => /\d:\d/.test(text);
+  return createDateRangeValue(
+    hasTime(parts[0]) ? from : startOfDay(from),
+    hasTime(parts[1]) ? to : endOfDay(to),
+    options
+  );
+}
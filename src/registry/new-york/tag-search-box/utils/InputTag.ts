@@ -0,0 +1,94 @@
+import {
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import { matchAttrPrefix } from "@/registry/new-york/tag-search-box/utils/Operator";
+import {
+  findStaticValue,
+  parseAttrValue,
+} from "@/registry/new-york/tag-search-box/utils/AttributeType";
+import {
+  validateAttrValues,
+  ValidationMode,
+} from "@/registry/new-york/tag-search-box/utils/Validate";
+import { Translate } from "@/registry/new-york/tag-search-box/utils/Locale";
+
+// 按 `|` 拆分输入的多个值
+function splitValues(str: string) {
+  return str
+    .split("|")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * 按输入框的写法解析文本为标签，如 `Status: running | stopped`，未匹配属性时作为关键字
+ *
+ * `selected` 为值选择中已选中的值，传入时代替按文本匹配的值；运算符未输入完整、值为空或不合法时返回 `null`
+ */
+export function parseInputTag(
+  text: string,
+  attributes: AttributeValue[],
+  selected?: Value[]
+): TagValue | null {
+  if (text.trim().length <= 0) return null;
+
+  const { attribute, operator, negated, valueStr, pendingOperator } =
+    matchAttrPrefix(text, attributes);
+
+  if (!attribute) {
+    const values = splitValues(text).map((name) => ({ name }));
+    return values.length > 0 ? { values } : null;
+  }
+
+  // 运算符尚未输入完整
+  if (pendingOperator || (attribute.operators?.length && !operator)) {
+    return null;
+  }
+
+  // 日期、数字等类型的属性整体解析输入
+  const parsed = parseAttrValue(attribute, valueStr.trim());
+  if (parsed === null) return null;
+
+  const values = parsed
+    ? [parsed]
+    : selected ??
+      splitValues(valueStr).map(
+        (name) => findStaticValue(attribute, name) ?? { name }
+      );
+  if (values.length <= 0) return null;
+
+  return {
+    attr: attribute,
+    ...(operator ? { operator } : {}),
+    ...(negated ? { negated } : {}),
+    values,
+  };
+}
+
+/**
+ * 校验标签的值，关键字无需校验
+ */
+export function validateInputTag(tag: TagValue, t?: Translate) {
+  return tag.attr ? validateAttrValues(tag.attr, tag.values ?? [], t) : null;
+}
+
+/**
+ * 解析并校验输入框文本
+ *
+ * 无法生成标签或 `block` 模式下校验失败时返回 `null`，`mark` 模式下返回校验失败的错误信息
+ */
+export async function resolveInputTag(
+  text: string,
+  attributes: AttributeValue[],
+  validationMode: ValidationMode = "block",
+  t?: Translate
+): Promise<{ tag: TagValue; error: string | null } | null> {
+  const tag = parseInputTag(text, attributes);
+  if (!tag) return null;
+
+  const error = await validateInputTag(tag, t);
+  if (error && validationMode !== "mark") return null;
+  return { tag, error };
+}
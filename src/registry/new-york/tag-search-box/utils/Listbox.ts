@@ -0,0 +1,35 @@
+/**
+ * 下拉列表与输入框（combobox）关联所需的属性
+ */
+export interface ListboxProps {
+  /**
+   * 列表元素 id，对应输入框的 `aria-controls`
+   */
+  listboxId?: string;
+  /**
+   * 高亮项变化时回调其元素 id，对应输入框的 `aria-activedescendant`
+   */
+  onActiveOptionChange?: (id: string | undefined) => void;
+}
+
+/**
+ * 获取列表项元素 id，`index` 为 `all` 时表示全选项
+ */
+export function getOptionId(
+  listboxId: string | undefined,
+  index: number | "all"
+) {
+  return listboxId ? `${listboxId}-option-${index}` : undefined;
+}
+
+/**
+ * 创建高亮项通知函数，仅在高亮项 id 变化时回调
+ */
+export function createActiveOptionNotifier() {
+  let current: string | undefined;
+  return (id: string | undefined, props: ListboxProps) => {
+    if (id === current) return;
+    current = id;
+    props.onActiveOptionChange?.(id);
+  };
+}
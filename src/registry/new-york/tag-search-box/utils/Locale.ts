@@ -0,0 +1,76 @@
+import { enUS } from "@/registry/new-york/tag-search-box/locale/en-US";
+import { zhCN } from "@/registry/new-york/tag-search-box/locale/zh-CN";
+
+/**
+ * 内置文案支持的语言
+ */
+export type TagSearchBoxLocale = "en-US" | "zh-CN";
+
+/**
+ * 按数量区分的文案，根据 `count` 参数及语言的复数规则选择，缺少对应形式时使用 `other`
+ */
+export type PluralMessage = Partial<
+  Record<Intl.LDMLPluralRule, string>
+> & { other: string };
+
+/**
+ * 单条文案，`{name}` 形式的占位符在使用时替换为对应参数
+ */
+export type TagSearchBoxMessage = string | PluralMessage;
+
+export type TagSearchBoxMessageKey = keyof typeof enUS;
+
+/**
+ * 完整的内置文案
+ */
+export type TagSearchBoxMessages = Record<
+  TagSearchBoxMessageKey,
+  TagSearchBoxMessage
+>;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 获取指定 key 的文案并替换占位符，未传入的参数保留原占位符
+ */
+export type Translate = (
+  key: TagSearchBoxMessageKey,
+  params?: MessageParams
+) => string;
+
+export const MESSAGES: Record<TagSearchBoxLocale, TagSearchBoxMessages> = {
+  "en-US": enUS,
+  "zh-CN": zhCN,
+};
+
+/**
+ * 替换文案中的占位符，按数量区分的文案根据 `params.count` 选择
+ */
+export function formatMessage(
+  message: TagSearchBoxMessage,
+  params: MessageParams = {},
+  locale: string = "en-US"
+) {
+  const template =
+    typeof message === "string"
+      ? message
+      : message[new Intl.PluralRules(locale).select(Number(params.count))] ??
+        message.other;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * 创建文案获取函数，`messages` 覆盖对应语言的内置文案，未支持的语言使用英文
+ */
+export function createTranslate(
+  locale: TagSearchBoxLocale = "en-US",
+  messages: Partial<TagSearchBoxMessages> = {}
+): Translate {
+  const dictionary = { ...(MESSAGES[locale] ?? enUS), ...messages };
+  return (key, params) => formatMessage(dictionary[key], params, locale);
+}
+
+export const defaultTranslate = createTranslate();
@@ -0,0 +1,112 @@
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+
+export interface NumberTypeOptions {
+  /**
+   * 最小值
+   */
+  min?: number;
+  /**
+   * 最大值
+   */
+  max?: number;
+  /**
+   * 步长，输入值需为 `min + n * step`
+   */
+  step?: number;
+  /**
+   * 单位，展示在数值之后，输入时可省略
+   */
+  unit?: string;
+  /**
+   * 滑块是否默认选择范围
+   * @default false
+   */
+  range?: boolean;
+}
+
+/**
+ * 数值范围分隔符，输入时同时支持 `-` 与 `~`
+ */
+export const NUMBER_RANGE_SEPARATOR = "-";
+
+const NUMBER = "(-?(?:\\d+(?:\\.\\d*)?|\\.\\d+))";
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isValidNumber(num: number, { min, max, step }: NumberTypeOptions) {
+  if (!isFinite(num)) return false;
+  if (min !== undefined && num < min) return false;
+  if (max !== undefined && num > max) return false;
+  if (step) {
+    const count = (num - (min ?? 0)) / step;
+    if (Math.abs(count - Math.round(count)) > 1e-9) return false;
+  }
+  return true;
+}
+
+function formatNumber(num: number, unit?: string) {
+  return unit ? `${num} ${unit}` : String(num);
+}
+
+/**
+ * 生成数值类型的值，传入 `[下限, 上限]` 时为范围
+ */
+export function createNumberValue(
+  value: number | [number, number],
+  options: NumberTypeOptions = {}
+): Value {
+  const { unit } = options;
+
+  if (Array.isArray(value)) {
+    const [low, high] = value;
+    return {
+      key: `${low}~${high}`,
+      name: `${low} ${NUMBER_RANGE_SEPARATOR} ${formatNumber(high, unit)}`,
+      number: [low, high],
+    };
+  }
+
+  return {
+    key: String(value),
+    name: formatNumber(value, unit),
+    number: value,
+  };
+}
+
+/**
+ * 将 `4`、`4 GB` 或 `4 - 8 GB` 形式的输入解析为数值，不合法或超出范围时返回 `null`
+ */
+export function parseNumberValue(
+  str: string,
+  options: NumberTypeOptions = {}
+) {
+  const unit = options.unit ? `(?:\\s*${escapeRegExp(options.unit)})?` : "";
+  const text = str.trim();
+
+  const single = new RegExp(`^${NUMBER}${unit}$`, "i").exec(text);
+  if (single) {
+    const num = parseFloat(single[1]);
+    return isValidNumber(num, options) ? createNumberValue(num, options) : null;
+  }
+
+  const range = new RegExp(
+    `^${NUMBER}${unit}\\s*[-~]\\s*${NUMBER}${unit}$`,
+    "i"
+  ).exec(text);
+  if (range) {
+    const low = parseFloat(range[1]);
+    const high = parseFloat(range[2]);
+    if (
+      !isValidNumber(low, options) ||
+      !isValidNumber(high, options) ||
+      low > high
+    ) {
+      return null;
+    }
+    return createNumberValue([low, high], options);
+  }
+
+  return null;
+}
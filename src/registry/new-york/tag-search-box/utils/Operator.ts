@@ -0,0 +1,204 @@
+import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
+
+/**
+ * 标签比较运算符
+ */
+export type TagOperator = "=" | "!=" | ">" | "<" | "contains" | "startsWith";
+
+/**
+ * 运算符在输入框及标签中的展示文本
+ */
+export const OPERATOR_TEXT: Record<TagOperator, string> = {
+  "=": "=",
+  "!=": "!=",
+  ">": ">",
+  "<": "<",
+  contains: "contains",
+  startsWith: "starts with",
+};
+
+export interface AttrPrefixMatch {
+  /**
+   * 匹配到的属性
+   */
+  attribute: AttributeValue | null;
+  /**
+   * 匹配到的运算符（属性未配置 operators 时为空）
+   */
+  operator?: TagOperator;
+  /**
+   * 已匹配属性但运算符尚未输入完整
+   */
+  pendingOperator: boolean;
+  /**
+   * 属性名前是否有取反前缀 `-` 或 `!`
+   */
+  negated: boolean;
+  /**
+   * 属性名结束位置，未匹配时为 -1
+   */
+  pos: number;
+  /**
+   * 值开始位置，未匹配时为 -1
+   */
+  valuePos: number;
+  /**
+   * 属性前缀之后的字符串
+   */
+  valueStr: string;
+}
+
+/**
+ * 取反前缀，输入时同时支持 `-` 与 `!`
+ */
+export const NEGATION_PREFIX = "-";
+
+const NEGATION_REGEXP = /^[-!]/;
+
+/**
+ * 生成标签属性前缀，`=` 沿用 `属性: ` 的写法，取反时以 `-` 开头
+ */
+export function getAttrPrefix(
+  name: string,
+  operator?: TagOperator,
+  negated?: boolean
+) {
+  const prefix = negated ? NEGATION_PREFIX : "";
+  if (!operator || operator === "=") {
+    return `${prefix}${name}: `;
+  }
+  return `${prefix}${name} ${OPERATOR_TEXT[operator]} `;
+}
+
+/**
+ * 可用于输入的属性名，依次为名称、`key` 及别名
+ */
+export function getAttrNames(attribute: AttributeValue) {
+  const names = [attribute.name, attribute.key, ...(attribute.aliases ?? [])];
+  return names.filter(
+    (name, index) => !!name && names.indexOf(name) === index
+  );
+}
+
+/**
+ * 属性是否支持 `=` 匹配，未配置 operators 时仅支持 `=`
+ */
+export function supportsEquality(attribute: AttributeValue) {
+  const { operators = [] } = attribute;
+  return operators.length <= 0 || operators.includes("=");
+}
+
+/**
+ * 去除取反前缀，用于按输入过滤属性
+ */
+export function stripNegation(str: string) {
+  return str.replace(NEGATION_REGEXP, "");
+}
+
+/**
+ * 从输入字符串开头匹配属性及运算符
+ *
+ * 支持 `属性: 值`、`属性： 值` 以及 `属性 运算符 值` 三种写法，属性名前可加 `-` 或 `!` 表示取反
+ *
+ * 属性可使用名称、`key` 或别名，其中名称优先
+ */
+export function matchAttrPrefix(
+  str: string,
+  attributes: AttributeValue[]
+): AttrPrefixMatch {
+  if (NEGATION_REGEXP.test(str)) {
+    const match = matchAttrPrefixWithoutNegation(str.substring(1), attributes);
+    if (match.attribute) {
+      return {
+        ...match,
+        negated: true,
+        pos: match.pos + 1,
+        valuePos: match.valuePos + 1,
+      };
+    }
+  }
+  return matchAttrPrefixWithoutNegation(str, attributes);
+}
+
+function matchAttrPrefixWithoutNegation(
+  str: string,
+  attributes: AttributeValue[]
+): AttrPrefixMatch {
+  // 所有属性的名称均优先于 key 及别名匹配
+  const candidates = attributes
+    .flatMap((attribute) =>
+      getAttrNames(attribute).map((name, order) => ({ attribute, name, order }))
+    )
+    .sort((a, b) => (a.order > 0 ? 1 : 0) - (b.order > 0 ? 1 : 0));
+
+  for (const { attribute, name } of candidates) {
+    const operators = attribute.operators ?? [];
+
+    if (str.indexOf(name + ":") === 0 || str.indexOf(name + "：") === 0) {
+      // 不支持 `=` 时需先选择运算符
+      if (!supportsEquality(attribute)) {
+        return {
+          attribute,
+          pendingOperator: true,
+          negated: false,
+          pos: name.length,
+          valuePos: str.length,
+          valueStr: "",
+        };
+      }
+      return {
+        attribute,
+        operator: operators.length > 0 ? "=" : undefined,
+        pendingOperator: false,
+        negated: false,
+        pos: name.length,
+        valuePos: name.length + 1,
+        valueStr: str.substr(name.length + 1),
+      };
+    }
+
+    if (operators.length <= 0 || str.indexOf(name + " ") !== 0) {
+      continue;
+    }
+
+    const rest = str.substr(name.length + 1);
+    // 优先匹配较长的运算符文本
+    const operator = [...operators]
+      .sort((a, b) => OPERATOR_TEXT[b].length - OPERATOR_TEXT[a].length)
+      .find((op) => rest.indexOf(OPERATOR_TEXT[op]) === 0);
+
+    if (operator) {
+      const valuePos = name.length + 1 + OPERATOR_TEXT[operator].length;
+      return {
+        attribute,
+        operator,
+        pendingOperator: false,
+        negated: false,
+        pos: name.length,
+        valuePos,
+        valueStr: str.substr(valuePos),
+      };
+    }
+
+    // 正在输入运算符
+    if (operators.some((op) => OPERATOR_TEXT[op].indexOf(rest.trim()) === 0)) {
+      return {
+        attribute,
+        pendingOperator: true,
+        negated: false,
+        pos: name.length,
+        valuePos: str.length,
+        valueStr: "",
+      };
+    }
+  }
+
+  return {
+    attribute: null,
+    pendingOperator: false,
+    negated: false,
+    pos: -1,
+    valuePos: -1,
+    valueStr: str,
+  };
+}
@@ -0,0 +1,334 @@
+import { AttributeValue, Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import {
+  matchAttrPrefix,
+  supportsEquality,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator";
+import {
+  findStaticValue,
+  parseAttrValue,
+} from "@/registry/new-york/tag-search-box/utils/AttributeType";
+import {
+  defaultTranslate,
+  MessageParams,
+} from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 查询语句中运算符的写法，`=` 使用 `:` 表示
+ *
+ * ```
+ * status:running  status!=running  cpu>4  cpu<8  name~=web  name^=web
+ * ```
+ */
+const OPERATOR_SYMBOL: Record<TagOperator, string> = {
+  "=": ":",
+  "!=": "!=",
+  ">": ">",
+  "<": "<",
+  contains: "~=",
+  startsWith: "^=",
+};
+
+const SYMBOL_OPERATOR: Record<string, TagOperator> = {
+  ":": "=",
+  "：": "=",
+  "!=": "!=",
+  ">": ">",
+  "<": "<",
+  "~=": "contains",
+  "^=": "startsWith",
+};
+
+const KEY_REGEXP = /^([^\s:：!<>~^=()"|]+)(~=|\^=|!=|:|：|>|<)/;
+const SPECIAL_CHAR_REGEXP = /[\s:：()|"!<>~^=]/;
+
+/**
+ * 查询语句解析错误类型，对应同名文案
+ */
+export type QueryParseErrorCode =
+  | "parseUnknownAttribute"
+  | "parseUnsupportedOperator"
+  | "parseMissingParen"
+  | "parseUnexpected"
+  | "parseMissingValue"
+  | "parseUnterminatedQuote"
+  | "parseInvalidValue";
+
+/**
+ * 查询语句解析错误，`message` 为英文，展示时可根据 `code` 及 `params` 获取对应语言的文案
+ */
+export class QueryParseError extends Error {
+  /**
+   * 出错字符在查询语句中的位置（从 0 开始）
+   */
+  position: number;
+  code: QueryParseErrorCode;
+  params: MessageParams;
+
+  constructor(
+    code: QueryParseErrorCode,
+    position: number,
+    params: MessageParams = {}
+  ) {
+    super(
+      defaultTranslate("queryParseError", {
+        message: defaultTranslate(code, params),
+        position: position + 1,
+      })
+    );
+    this.name = "QueryParseError";
+    this.position = position;
+    this.code = code;
+    this.params = params;
+  }
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private text: string,
+    private attributes: AttributeValue[]
+  ) {}
+
+  parse() {
+    const tags: TagValue[] = [];
+    this.skipSpaces();
+    while (this.pos < this.text.length) {
+      tags.push(this.parseTerm());
+      this.skipSpaces();
+    }
+    return tags;
+  }
+
+  private skipSpaces() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseTerm(): TagValue {
+    const start = this.pos;
+    let negated = false;
+
+    if (this.text[this.pos] === "-" || this.text[this.pos] === "!") {
+      negated = true;
+      this.pos++;
+    }
+
+    const matched = this.parseAttribute();
+    if (!matched) {
+      // 不是属性前缀时 `-` `!` 作为关键字的一部分
+      this.pos = start;
+      return {
+        attr: undefined,
+        values: this.parseValues().map((name) => ({ name })),
+      };
+    }
+
+    const { attr, operator } = matched;
+
+    this.skipSpaces();
+    const valueStart = this.pos;
+    const values = this.parseValues().map((item) =>
+      this.resolveValue(attr, item, valueStart)
+    );
+
+    return {
+      attr,
+      ...(operator ? { operator } : {}),
+      ...(negated ? { negated } : {}),
+      values,
+    };
+  }
+
+  // 匹配属性名称（沿用输入框 `名称:` 的规则）、属性 key 或别名
+  private parseAttribute(): {
+    attr: AttributeValue;
+    operator?: TagOperator;
+  } | null {
+    const rest = this.text.substring(this.pos);
+    const match = matchAttrPrefix(rest, this.attributes);
+
+    if (match.attribute && !match.pendingOperator && !match.negated) {
+      this.pos += match.valuePos;
+      return { attr: match.attribute, operator: match.operator };
+    }
+
+    const result = KEY_REGEXP.exec(rest);
+    if (!result) return null;
+
+    const [full, name, symbol] = result;
+    const attr =
+      this.attributes.find(
+        (item) => item.key === name || item.name === name
+      ) ?? this.attributes.find((item) => item.aliases?.includes(name));
+    if (!attr) {
+      throw new QueryParseError("parseUnknownAttribute", this.pos, { name });
+    }
+
+    const operator = SYMBOL_OPERATOR[symbol];
+    const supported =
+      operator === "="
+        ? supportsEquality(attr)
+        : !!attr.operators?.includes(operator);
+    if (!supported) {
+      throw new QueryParseError(
+        "parseUnsupportedOperator",
+        this.pos + name.length,
+        { attr: attr.name, operator: symbol }
+      );
+    }
+
+    this.pos += full.length;
+    return {
+      attr,
+      operator: attr.operators?.length ? operator : undefined,
+    };
+  }
+
+  private parseValues(): string[] {
+    const ch = this.text[this.pos];
+
+    if (ch === "(") {
+      const open = this.pos;
+      const values: string[] = [];
+      this.pos++;
+
+      for (;;) {
+        this.skipSpaces();
+        if (this.pos >= this.text.length) {
+          throw new QueryParseError("parseMissingParen", open);
+        }
+        values.push(this.parseValue(true));
+        this.skipSpaces();
+
+        const next = this.text[this.pos];
+        if (next === "|") {
+          this.pos++;
+        } else if (next === ")") {
+          this.pos++;
+          break;
+        } else if (this.pos >= this.text.length) {
+          throw new QueryParseError("parseMissingParen", open);
+        } else {
+          throw new QueryParseError("parseUnexpected", this.pos, {
+            char: next,
+          });
+        }
+      }
+      return values;
+    }
+
+    if (this.pos >= this.text.length || /\s/.test(ch)) {
+      throw new QueryParseError("parseMissingValue", this.pos);
+    }
+
+    // 未加括号时同样支持 `a|b` 的写法
+    const values = [this.parseValue(false)];
+    while (this.text[this.pos] === "|") {
+      this.pos++;
+      values.push(this.parseValue(false));
+    }
+    return values;
+  }
+
+  private parseValue(inGroup: boolean): string {
+    const start = this.pos;
+
+    if (this.text[this.pos] === '"') {
+      let value = "";
+      this.pos++;
+      while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+        if (this.text[this.pos] === "\\" && this.pos + 1 < this.text.length) {
+          this.pos++;
+        }
+        value += this.text[this.pos++];
+      }
+      if (this.pos >= this.text.length) {
+        throw new QueryParseError("parseUnterminatedQuote", start);
+      }
+      this.pos++;
+      return value;
+    }
+
+    const stop = inGroup ? /[|)"]/ : /[\s|()"]/;
+    while (this.pos < this.text.length && !stop.test(this.text[this.pos])) {
+      this.pos++;
+    }
+
+    const value = this.text.substring(start, this.pos).trim();
+    if (value.length <= 0) {
+      throw new QueryParseError("parseMissingValue", start);
+    }
+    return value;
+  }
+
+  // 优先按 key 其次按名称匹配属性静态可选值，再按属性类型解析
+  private resolveValue(
+    attr: AttributeValue,
+    str: string,
+    position: number
+  ): Value {
+    const found = findStaticValue(attr, str);
+    if (found) return found;
+
+    const parsed = parseAttrValue(attr, str);
+    if (parsed === null) {
+      throw new QueryParseError("parseInvalidValue", position, {
+        value: str,
+        attr: attr.name,
+      });
+    }
+    return parsed ?? { name: str };
+  }
+}
+
+function quote(str: string) {
+  if (str.length > 0 && !SPECIAL_CHAR_REGEXP.test(str) && str[0] !== "-") {
+    return str;
+  }
+  return `"${str.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * 将查询语句解析为标签
+ *
+ * 语法示例：`status:running region:(east-1|west-2) -type:gpu "free text"`
+ *
+ * - 属性可使用名称（支持 `名称:`、`名称：` 及 `名称 != ` 写法）或 `key`
+ * - 多个值使用 `(a|b)` 或 `a|b` 表示
+ * - 属性前加 `-` 或 `!` 表示取反
+ * - 不带属性的词语或引号中的内容作为关键字
+ *
+ * @throws {QueryParseError} 语法错误时抛出，包含出错位置
+ */
+export function parseQuery(
+  text: string,
+  attributes: AttributeValue[]
+): TagValue[] {
+  return new Parser(text, attributes).parse();
+}
+
+/**
+ * 将标签转换为查询语句，属性及值优先使用 `key`
+ */
+export function stringifyQuery(tags: TagValue[]): string {
+  return tags
+    .filter((tag) => tag.values && tag.values.length > 0)
+    .map((tag) => {
+      const values = tag.values!.map((item) =>
+        quote(tag.attr ? item.key ?? item.name : item.name)
+      );
+      const valueStr =
+        values.length > 1 ? `(${values.join("|")})` : values[0];
+
+      if (!tag.attr) return valueStr;
+
+      const symbol = OPERATOR_SYMBOL[tag.operator ?? "="];
+      const prefix = tag.negated ? "-" : "";
+      return `${prefix}${tag.attr.key}${symbol}${valueStr}`;
+    })
+    .join(" ");
+}
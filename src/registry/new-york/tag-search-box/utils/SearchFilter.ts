@@ -1,7 +1,187 @@
-export function searchFilter(optionValue: string, inputValue: string) {
-    return String(optionValue)
-      .trim()
-      .toLowerCase()
-      .includes(String(inputValue).trim().toLowerCase());
+export interface FuzzyMatch {
+  /**
+   * 匹配得分，越高越靠前
+   */
+  score: number;
+  /**
+   * 匹配字符在原文本中的下标，用于高亮
+   */
+  indexes: number[];
+}
+
+/**
+ * 匹配函数，不匹配时返回 `null`
+ */
+export type FilterFn = (text: string, keyword: string) => FuzzyMatch | null;
+
+export interface FilteredItem<T> {
+  item: T;
+  /**
+   * 在原列表中的下标
+   */
+  index: number;
+  match: FuzzyMatch;
+}
+
+const SCORE_MATCH = 1;
+const BONUS_FIRST_CHAR = 4;
+const BONUS_WORD_START = 8;
+const BONUS_CONSECUTIVE = 5;
+const BONUS_SUBSTRING = 10;
+const PENALTY_GAP = 0.1;
+const PENALTY_LENGTH = 0.01;
+
+const SEPARATOR = /[\s_\-./\\:()|,]/;
+
+// 是否为单词开头，包括分隔符后及驼峰大写字母
+function isWordStart(text: string, index: number) {
+  if (index === 0) return true;
+  const prev = text[index - 1];
+  const cur = text[index];
+  if (SEPARATOR.test(prev)) return true;
+  return prev !== prev.toUpperCase() && cur !== cur.toLowerCase();
+}
+
+function isSubsequence(text: string, keyword: string, from: number) {
+  let pos = from;
+  for (const char of keyword) {
+    pos = text.indexOf(char, pos);
+    if (pos < 0) return false;
+    pos++;
   }
-  
\ No newline at end of file
+  return true;
+}
+
+function getScore(text: string, indexes: number[]) {
+  let score = 0;
+  indexes.forEach((index, i) => {
+    score += SCORE_MATCH;
+    if (index === 0) score += BONUS_FIRST_CHAR;
+    if (isWordStart(text, index)) score += BONUS_WORD_START;
+    if (i > 0) {
+      if (index === indexes[i - 1] + 1) {
+        score += BONUS_CONSECUTIVE;
+      } else {
+        score -= (index - indexes[i - 1] - 1) * PENALTY_GAP;
+      }
+    }
+  });
+  // 关键字整体连续出现时优先于分散的单词开头匹配
+  if (
+    indexes.length > 1 &&
+    indexes[indexes.length - 1] - indexes[0] === indexes.length - 1
+  ) {
+    score += BONUS_SUBSTRING;
+  }
+  // 同等匹配时较短的文本靠前
+  return score - text.length * PENALTY_LENGTH;
+}
+
+// 逐字匹配，优先连续字符，其次单词开头（首字母缩写），并保证剩余字符仍可匹配
+function matchSubsequence(text: string, lowerText: string, keyword: string) {
+  const indexes: number[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < keyword.length; i++) {
+    const char = keyword[i];
+    const rest = keyword.slice(i + 1);
+    const next = lowerText.indexOf(char, pos);
+    if (next < 0) return null;
+
+    let index = next;
+    const consecutive = indexes.length > 0 && next === pos;
+    if (!consecutive && !isWordStart(text, next)) {
+      for (let j = next + 1; j < lowerText.length; j++) {
+        if (
+          lowerText[j] === char &&
+          isWordStart(text, j) &&
+          isSubsequence(lowerText, rest, j + 1)
+        ) {
+          index = j;
+          break;
+        }
+      }
+    }
+
+    indexes.push(index);
+    pos = index + 1;
+  }
+  return indexes;
+}
+
+/**
+ * 默认的模糊匹配，忽略大小写
+ *
+ * 支持子序列（`rgn` 匹配 `Region`）、单词开头及首字母缩写（`ct` 匹配 `Create Time`），连续匹配及单词开头得分更高
+ */
+export const fuzzyMatch: FilterFn = (text, keyword) => {
+  const value = String(text);
+  const lowerKeyword = String(keyword).trim().toLowerCase();
+  if (!lowerKeyword) return { score: 0, indexes: [] };
+
+  const lowerText = value.toLowerCase();
+  const candidates: number[][] = [];
+
+  const start = lowerText.indexOf(lowerKeyword);
+  if (start >= 0) {
+    // 子串匹配时优先选择单词开头处
+    let substringStart = start;
+    for (
+      let pos = start;
+      pos >= 0;
+      pos = lowerText.indexOf(lowerKeyword, pos + 1)
+    ) {
+      if (isWordStart(value, pos)) {
+        substringStart = pos;
+        break;
+      }
+    }
+    candidates.push(
+      Array.from(lowerKeyword, (_, i) => substringStart + i)
+    );
+  }
+
+  const subsequence = matchSubsequence(value, lowerText, lowerKeyword);
+  if (subsequence) candidates.push(subsequence);
+
+  if (candidates.length <= 0) return null;
+
+  return candidates
+    .map((indexes) => ({ score: getScore(value, indexes), indexes }))
+    .reduce((best, cur) => (cur.score > best.score ? cur : best));
+};
+
+/**
+ * 过滤并按得分降序排列，关键字为空时保持原顺序
+ */
+export function filterList<T>(
+  list: T[],
+  getText: (item: T) => string,
+  keyword: string,
+  filterFn: FilterFn = fuzzyMatch
+): FilteredItem<T>[] {
+  if (!String(keyword).trim()) {
+    return list.map((item, index) => ({
+      item,
+      index,
+      match: { score: 0, indexes: [] },
+    }));
+  }
+
+  const result: FilteredItem<T>[] = [];
+  list.forEach((item, index) => {
+    const match = filterFn(getText(item), keyword);
+    if (match) result.push({ item, index, match });
+  });
+  return result.sort(
+    (a, b) => b.match.score - a.match.score || a.index - b.index
+  );
+}
+
+export function searchFilter(
+  optionValue: string,
+  inputValue: string,
+  filterFn: FilterFn = fuzzyMatch
+) {
+  return !!filterFn(optionValue, inputValue);
+}
@@ -0,0 +1,179 @@
+import { AttributeValue, Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import { TagOperator } from "@/registry/new-york/tag-search-box/utils/Operator";
+import { parseAttrValue } from "@/registry/new-york/tag-search-box/utils/AttributeType";
+
+/**
+ * 历史记录中保存的标签，属性仅记录 key，恢复时按当前属性列表还原
+ */
+export interface SearchHistoryTag {
+  /**
+   * 属性 key，为空时为关键字
+   */
+  attr?: string;
+  /**
+   * 比较运算符
+   */
+  operator?: TagOperator;
+  /**
+   * 是否取反
+   */
+  negated?: boolean;
+  /**
+   * 属性值，仅保留 `key` 及 `name`
+   */
+  values: Value[];
+}
+
+export interface SearchHistoryItem {
+  /**
+   * 搜索时的标签
+   */
+  tags: SearchHistoryTag[];
+  /**
+   * 搜索时间
+   */
+  time: number;
+}
+
+/**
+ * 搜索历史存储适配器
+ */
+export interface SearchHistoryStorage {
+  load: () => SearchHistoryItem[];
+  save: (items: SearchHistoryItem[]) => void;
+}
+
+export interface SearchHistoryOptions {
+  /**
+   * 存储适配器
+   * @default createLocalStorageAdapter()
+   */
+  storage?: SearchHistoryStorage;
+  /**
+   * 最多保存的记录数
+   * @default 10
+   */
+  maxSize?: number;
+}
+
+export const DEFAULT_HISTORY_MAX_SIZE = 10;
+
+const DEFAULT_STORAGE_KEY = "tag-search-box-history";
+
+/**
+ * 使用 `localStorage` 保存搜索历史，不可用时（如 SSR、隐私模式）不保存
+ */
+export function createLocalStorageAdapter(
+  key = DEFAULT_STORAGE_KEY
+): SearchHistoryStorage {
+  return {
+    load: () => {
+      try {
+        const items = JSON.parse(window.localStorage.getItem(key) || "[]");
+        // 忽略格式不符的记录
+        return Array.isArray(items)
+          ? items.filter((item) => Array.isArray(item?.tags))
+          : [];
+      } catch (_) {
+        return [];
+      }
+    },
+    save: (items) => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(items));
+      } catch (_) {}
+    },
+  };
+}
+
+/**
+ * 在内存中保存搜索历史，适用于测试或无需持久化的场景
+ */
+export function createMemoryStorageAdapter(
+  initialItems: SearchHistoryItem[] = []
+): SearchHistoryStorage {
+  let items = [...initialItems];
+  return {
+    load: () => [...items],
+    save: (next) => {
+      items = [...next];
+    },
+  };
+}
+
+/**
+ * 将标签转换为历史记录中保存的结构
+ */
+export function toHistoryTags(tags: TagValue[]): SearchHistoryTag[] {
+  return tags.map(({ attr, operator, negated, values = [] }) => ({
+    ...(attr ? { attr: attr.key } : {}),
+    ...(operator ? { operator } : {}),
+    ...(attr && negated ? { negated } : {}),
+    values: values.map(({ key, name }) =>
+      key === undefined ? { name } : { key, name }
+    ),
+  }));
+}
+
+/**
+ * 按当前属性列表还原历史记录中的标签，忽略属性已不存在或值已不合法的标签
+ */
+export function fromHistoryTags(
+  tags: SearchHistoryTag[],
+  attributes: AttributeValue[]
+): TagValue[] {
+  const result: TagValue[] = [];
+
+  tags.forEach(({ attr: key, operator, negated, values }) => {
+    if (!Array.isArray(values) || values.length <= 0) return;
+    if (key === undefined) {
+      result.push({ values });
+      return;
+    }
+
+    const attr = attributes.find((item) => item.key === key);
+    if (!attr) return;
+
+    // 日期、数字等类型按保存的 key 重新解析，恢复结构化的值
+    const parsed = values
+      .map((value) => {
+        const parsedValue = parseAttrValue(attr, value.key ?? value.name);
+        return parsedValue === undefined ? value : parsedValue;
+      })
+      .filter((item): item is Value => !!item);
+    if (parsed.length < values.length) return;
+
+    result.push({
+      attr,
+      ...(operator ? { operator } : {}),
+      ...(negated ? { negated } : {}),
+      values: parsed,
+    });
+  });
+
+  return result;
+}
+
+// 忽略标签顺序比较记录是否相同
+function normalizeTags(tags: SearchHistoryTag[]) {
+  return tags
+    .map((tag) => JSON.stringify(tag))
+    .sort()
+    .join("\n");
+}
+
+/**
+ * 将标签添加到历史记录最前，移除重复项（标签顺序不同视为重复）并截断至 `maxSize`
+ */
+export function addHistoryItem(
+  items: SearchHistoryItem[],
+  tags: SearchHistoryTag[],
+  maxSize = DEFAULT_HISTORY_MAX_SIZE
+) {
+  const normalized = normalizeTags(tags);
+  return [
+    { tags, time: Date.now() },
+    ...items.filter((item) => normalizeTags(item.tags) !== normalized),
+  ].slice(0, maxSize);
+}
@@ -0,0 +1,94 @@
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+
+/**
+ * 分组模式下插入在标签之间的分隔符
+ *
+ * 相邻标签之间默认为 AND，`or` 表示 OR，`(` `)` 表示分组
+ */
+export type TagGroupToken = "or" | "(" | ")";
+
+/**
+ * 分组模式下的结构化标签值
+ *
+ * AND 的优先级高于 OR，如 `A B OR C` 表示 `(A AND B) OR C`
+ */
+export type TagExpression =
+  | { type: "tag"; tag: TagValue }
+  | { type: "and"; children: TagExpression[] }
+  | { type: "or"; children: TagExpression[] };
+
+export type TagExpressionItem = TagValue | TagGroupToken;
+
+class ExpressionBuilder {
+  private pos = 0;
+
+  constructor(private items: TagExpressionItem[]) {}
+
+  build() {
+    const expressions: TagExpression[] = [];
+    while (this.pos < this.items.length) {
+      const expression = this.parseOr();
+      if (expression) expressions.push(expression);
+      // 多余的 `)` 直接忽略
+      if (this.items[this.pos] === ")") this.pos++;
+    }
+    return combine("and", expressions);
+  }
+
+  private parseOr() {
+    const children: TagExpression[] = [];
+    for (;;) {
+      const expression = this.parseAnd();
+      if (expression) children.push(expression);
+      if (this.items[this.pos] !== "or") break;
+      this.pos++;
+    }
+    return combine("or", children);
+  }
+
+  private parseAnd() {
+    const children: TagExpression[] = [];
+    while (this.pos < this.items.length) {
+      const item = this.items[this.pos];
+      if (item === "or" || item === ")") break;
+
+      this.pos++;
+      if (item === "(") {
+        const expression = this.parseOr();
+        // 缺少 `)` 时在末尾自动闭合
+        if (this.items[this.pos] === ")") this.pos++;
+        if (expression) children.push(expression);
+      } else {
+        children.push({ type: "tag", tag: item });
+      }
+    }
+    return combine("and", children);
+  }
+}
+
+function combine(
+  type: "and" | "or",
+  children: TagExpression[]
+): TagExpression | null {
+  if (children.length <= 0) return null;
+  if (children.length === 1) return children[0];
+
+  // 展开同类型的子节点，如 `(A OR B) OR C`
+  return {
+    type,
+    children: children.flatMap((child) =>
+      child.type === type ? child.children : [child]
+    ),
+  };
+}
+
+/**
+ * 将标签及分隔符序列转换为表达式树，无标签时返回 `null`
+ *
+ * 括号不匹配时按尽量保留标签的方式处理：缺少的 `)` 自动补全，多余的 `)` 忽略
+ */
+export function buildTagExpression(
+  items: TagExpressionItem[]
+): TagExpression | null {
+  return new ExpressionBuilder(items).build();
+}
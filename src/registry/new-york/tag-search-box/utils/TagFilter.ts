@@ -0,0 +1,84 @@
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import {
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { getAttrType } from "@/registry/new-york/tag-search-box/utils/AttributeType";
+import { supportsEquality } from "@/registry/new-york/tag-search-box/utils/Operator";
+import { InternalTag } from "@/registry/new-york/tag-search-box/useTagSearchBox";
+
+function isSameValue(a: Value, b: Value) {
+  if (a.key !== undefined && b.key !== undefined) return a.key === b.key;
+  return a.name === b.name;
+}
+
+// 仅 `=` 匹配的标签可以合并值
+function isEqualityTag(tag: TagValue) {
+  return !tag.operator || tag.operator === "=";
+}
+
+/**
+ * 按属性及值切换筛选标签，返回新的标签列表
+ *
+ * - 取反状态相同的标签已包含该值时移除该值，无剩余值时移除标签，`removeable` 为 `false` 的标签保持不变
+ * - 属性不可重复使用时合并到已有标签，已有标签的取反状态或运算符不同时替换该标签
+ * - 否则在末尾添加标签
+ *
+ * 属性不支持 `=` 时无法按值筛选，返回原标签列表
+ */
+export function toggleTagFilter(
+  tags: InternalTag[],
+  attr: AttributeValue,
+  value: Value,
+  negated = false
+): TagValue[] {
+  if (!supportsEquality(attr)) return tags;
+
+  const isSameAttr = (tag: InternalTag) =>
+    !tag._group && tag.attr?.key === attr.key;
+
+  const index = tags.findIndex(
+    (tag) =>
+      isSameAttr(tag) &&
+      isEqualityTag(tag) &&
+      !!tag.negated === negated &&
+      (tag.values ?? []).some((item) => isSameValue(item, value))
+  );
+  if (index >= 0) {
+    const values = (tags[index].values ?? []).filter(
+      (item) => !isSameValue(item, value)
+    );
+    if (values.length > 0) {
+      return tags.map((tag, i) => (i === index ? { ...tag, values } : tag));
+    }
+    return tags[index].attr?.removeable === false
+      ? tags
+      : tags.filter((_, i) => i !== index);
+  }
+
+  const tag: TagValue = {
+    attr,
+    ...(attr.operators?.length ? { operator: "=" } : {}),
+    ...(negated ? { negated } : {}),
+    values: [value],
+  };
+  const existing = attr.reusable ? -1 : tags.findIndex(isSameAttr);
+  if (existing < 0) {
+    return [...tags, tag];
+  }
+
+  // 单选、日期及数值类型只能有一个值
+  const [type] = getAttrType(attr.type);
+  const current = tags[existing];
+  const canMerge =
+    (type === "input" || type === "multiple") &&
+    isEqualityTag(current) &&
+    !!current.negated === negated;
+
+  return tags.map((item, i) => {
+    if (i !== existing) return item;
+    return canMerge
+      ? { ...item, values: [...(item.values ?? []), value] }
+      : { ...item, ...tag, negated };
+  });
+}
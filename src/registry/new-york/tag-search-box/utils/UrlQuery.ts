@@ -0,0 +1,186 @@
+import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagValue } from "@/registry/new-york/tag-search-box/Tag";
+import {
+  NEGATION_PREFIX,
+  supportsEquality,
+  TagOperator,
+} from "@/registry/new-york/tag-search-box/utils/Operator";
+import {
+  findStaticValue,
+  parseAttrValue,
+} from "@/registry/new-york/tag-search-box/utils/AttributeType";
+
+export interface TagQueryOptions {
+  /**
+   * 无属性标签（关键字）使用的参数名
+   * @default "keyword"
+   */
+  keywordKey?: string;
+}
+
+/**
+ * 运算符在参数名中的后缀，如 `status.ne=running`
+ */
+const OPERATOR_SUFFIX: Record<TagOperator, string> = {
+  "=": "",
+  "!=": "ne",
+  ">": "gt",
+  "<": "lt",
+  contains: "contains",
+  startsWith: "startsWith",
+};
+
+const DEFAULT_KEYWORD_KEY = "keyword";
+
+function decode(str: string) {
+  try {
+    return decodeURIComponent(str.replace(/\+/g, " "));
+  } catch (_) {
+    return str;
+  }
+}
+
+// 拆分查询字符串，保留原始值以便区分值内被转义的逗号
+function splitSearch(search: string) {
+  return search
+    .replace(/^\?/, "")
+    .split("&")
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const index = item.indexOf("=");
+      if (index < 0) return { raw: item, key: decode(item), value: "" };
+      return {
+        raw: item,
+        key: decode(item.substring(0, index)),
+        value: item.substring(index + 1),
+      };
+    });
+}
+
+// 根据参数名查找属性及运算符，`-` 开头表示取反
+function matchParamKey(
+  key: string,
+  attributes: AttributeValue[]
+): { attr: AttributeValue; operator?: TagOperator; negated?: boolean } | null {
+  if (key.startsWith(NEGATION_PREFIX)) {
+    const match = matchParamKey(key.substring(1), attributes);
+    return match && !match.negated ? { ...match, negated: true } : null;
+  }
+
+  // 不带后缀的参数表示 `=`
+  const attr = attributes.find((item) => item.key === key);
+  if (attr) {
+    if (!supportsEquality(attr)) return null;
+    return { attr, operator: attr.operators?.length ? "=" : undefined };
+  }
+
+  const index = key.lastIndexOf(".");
+  if (index < 0) return null;
+
+  const attrKey = key.substring(0, index);
+  const suffix = key.substring(index + 1);
+  const operator = (Object.keys(OPERATOR_SUFFIX) as TagOperator[]).find(
+    (op) => OPERATOR_SUFFIX[op] === suffix
+  );
+  const operatorAttr = attributes.find((item) => item.key === attrKey);
+
+  if (operator && operatorAttr?.operators?.includes(operator)) {
+    return { attr: operatorAttr, operator };
+  }
+  return null;
+}
+
+/**
+ * 将标签序列化为查询字符串（不含 `?`）
+ *
+ * 属性及值使用 `key` 表示，值之间以 `,` 分隔，取反时参数名以 `-` 开头，如 `status=running&-region=east-1,west-2`
+ */
+export function serializeTags(
+  tags: TagValue[],
+  options: TagQueryOptions = {}
+) {
+  const { keywordKey = DEFAULT_KEYWORD_KEY } = options;
+
+  return tags
+    .filter((tag) => tag.values && tag.values.length > 0)
+    .map((tag) => {
+      let key = keywordKey;
+      if (tag.attr) {
+        const suffix = tag.operator ? OPERATOR_SUFFIX[tag.operator] : "";
+        key = suffix ? `${tag.attr.key}.${suffix}` : tag.attr.key;
+        if (tag.negated) key = NEGATION_PREFIX + key;
+      }
+      const value = tag
+        .values!.map((item) =>
+          encodeURIComponent(tag.attr ? item.key ?? item.name : item.name)
+        )
+        .join(",");
+      return `${encodeURIComponent(key)}=${value}`;
+    })
+    .join("&");
+}
+
+/**
+ * 从查询字符串中解析标签
+ *
+ * 未知的参数会被忽略；值 `key` 不在属性的静态可选值中且无法按属性类型解析时，以 `key` 作为展示名称
+ */
+export function parseTags(
+  search: string,
+  attributes: AttributeValue[],
+  options: TagQueryOptions = {}
+) {
+  const { keywordKey = DEFAULT_KEYWORD_KEY } = options;
+  const tags: TagValue[] = [];
+
+  splitSearch(search).forEach(({ key, value }) => {
+    const keys = value
+      .split(",")
+      .map(decode)
+      .filter((item) => item.trim().length > 0);
+    if (keys.length <= 0) return;
+
+    if (key === keywordKey) {
+      tags.push({ attr: undefined, values: keys.map((name) => ({ name })) });
+      return;
+    }
+
+    const match = matchParamKey(key, attributes);
+    if (!match) return;
+
+    const values = keys.map(
+      (k) =>
+        findStaticValue(match.attr, k) ??
+        parseAttrValue(match.attr, k) ?? { name: k }
+    );
+
+    tags.push({
+      attr: match.attr,
+      ...(match.operator ? { operator: match.operator } : {}),
+      ...(match.negated ? { negated: true } : {}),
+      values,
+    });
+  });
+
+  return tags;
+}
+
+/**
+ * 使用标签替换查询字符串中的标签参数，保留其他参数（返回值含 `?`，为空时返回空字符串）
+ */
+export function mergeTagsIntoSearch(
+  search: string,
+  tags: TagValue[],
+  attributes: AttributeValue[],
+  options: TagQueryOptions = {}
+) {
+  const { keywordKey = DEFAULT_KEYWORD_KEY } = options;
+
+  const rest = splitSearch(search)
+    .filter(({ key }) => key !== keywordKey && !matchParamKey(key, attributes))
+    .map(({ raw }) => raw);
+  const serialized = serializeTags(tags, options);
+  const result = [...rest, serialized].filter((item) => item.length > 0);
+
+  return result.length > 0 ? `?${result.join("&")}` : "";
+}
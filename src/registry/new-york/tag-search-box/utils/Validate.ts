@@ -0,0 +1,58 @@
+import {
+  AttributeValue,
+  Value,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
+import {
+  defaultTranslate,
+  Translate,
+} from "@/registry/new-york/tag-search-box/utils/Locale";
+
+/**
+ * 校验失败时的处理方式
+ *
+ * - `block` 阻止生成标签，在输入框下方提示错误信息
+ * - `mark` 仍生成标签，标签标红并在提示中展示错误信息
+ */
+export type ValidationMode = "block" | "mark";
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 校验属性值，返回错误信息，校验通过时返回 `null`
+ *
+ * 先使用 `schema` 逐个校验值的名称，全部通过后再调用 `validate`；`validate` 返回 Promise 时结果也为 Promise
+ */
+export function validateAttrValues(
+  attr: AttributeValue,
+  values: Value[],
+  t: Translate = defaultTranslate
+): string | null | Promise<string | null> {
+  if (attr.schema) {
+    for (const value of values) {
+      const result = attr.schema.safeParse(value.name);
+      if (!result.success) {
+        return (
+          result.error.issues[0]?.message ??
+          t("invalidValue", { value: value.name })
+        );
+      }
+    }
+  }
+
+  if (!attr.validate) return null;
+
+  try {
+    const result = attr.validate(values);
+    if (result instanceof Promise) {
+      return result.then(
+        (error) => error || null,
+        (error) => getErrorMessage(error)
+      );
+    }
+    return result || null;
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+}
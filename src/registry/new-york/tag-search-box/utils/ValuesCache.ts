@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+
+export interface ValuesCacheEntry {
+  values: Value[];
+  /**
+   * 是否为远程搜索模式的首页结果
+   */
+  remote: boolean;
+  hasMore: boolean;
+  /**
+   * 写入时间
+   */
+  time: number;
+}
+
+export interface ValuesCacheOptions {
+  /**
+   * 缓存有效期（毫秒），过期后重新加载
+   * @default 300000
+   */
+  ttl?: number;
+  /**
+   * 过期后是否先展示旧数据，同时在后台重新加载
+   * @default true
+   */
+  staleWhileRevalidate?: boolean;
+  /**
+   * 外部创建的缓存实例，可在组件外调用 `invalidate`，也可在多个搜索框间共享
+   */
+  cache?: ValuesCache;
+}
+
+export const DEFAULT_VALUES_CACHE_TTL = 5 * 60 * 1000;
+
+type InvalidateListener = (key?: string) => void;
+
+/**
+ * 属性可选值缓存，按属性 `key` 存储
+ *
+ * 远程搜索模式仅缓存无关键字时的首页结果
+ */
+export class ValuesCache {
+  private entries = new Map<string, ValuesCacheEntry>();
+  private listeners = new Set<InvalidateListener>();
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: Omit<ValuesCacheEntry, "time">) {
+    this.entries.set(key, { ...entry, time: Date.now() });
+  }
+
+  /**
+   * 清除指定属性的缓存，不传 `key` 时清除全部；正在展示的列表将重新加载
+   */
+  invalidate(key?: string) {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+    this.listeners.forEach((listener) => listener(key));
+  }
+
+  subscribe(listener: InvalidateListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * 创建在组件生命周期内保持不变的缓存实例，传入 `valuesCache={{ cache }}` 后可在后端数据变化时调用 `cache.invalidate(key)`
+ */
+export function useValuesCache() {
+  const [cache] = useState(() => new ValuesCache());
+  return cache;
+}
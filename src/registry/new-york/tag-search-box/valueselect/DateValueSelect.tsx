@@ -0,0 +1,133 @@
+import { useContext, useState } from "react";
+import { endOfDay, startOfDay } from "date-fns";
+import { DateRange, Matcher } from "react-day-picker";
+import {
+  createDateRangeValue,
+  createDateValue,
+  DatePreset,
+  DateTypeOptions,
+  getDefaultDatePresets,
+  parseDateRangeValue,
+  parseDateValue,
+} from "@/registry/new-york/tag-search-box/utils/DateValue";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+export interface DateValueSelectProps extends DateTypeOptions {
+  /**
+   * 是否为日期范围选择
+   */
+  range?: boolean;
+  inputValue: string;
+  onSelect?: (value: Value[]) => void;
+}
+
+export const DateValueSelect = ({
+  range = false,
+  inputValue,
+  onSelect,
+  ...options
+}: DateValueSelectProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  const { min, max } = options;
+  const current = range
+    ? parseDateRangeValue(inputValue, options)
+    : parseDateValue(inputValue, options);
+  const currentDate = current?.date;
+
+  const [selected, setSelected] = useState<DateRange | undefined>(() =>
+    Array.isArray(currentDate)
+      ? { from: currentDate[0], to: currentDate[1] }
+      : undefined
+  );
+
+  const presets = options.presets ?? getDefaultDatePresets(t, range);
+
+  const disabled: Matcher[] = [];
+  if (min) disabled.push({ before: min });
+  if (max) disabled.push({ after: max });
+
+  const handlePreset = (preset: DatePreset) => {
+    const value = preset.value();
+
+    if (range) {
+      const [from, to] = Array.isArray(value)
+        ? value
+        : [startOfDay(value), endOfDay(value)];
+      onSelect?.([createDateRangeValue(from, to, options)]);
+    } else {
+      onSelect?.([
+        createDateValue(Array.isArray(value) ? value[0] : value, options),
+      ]);
+    }
+  };
+
+  const handleRangeSelect = (value: DateRange | undefined) => {
+    setSelected(value);
+    // 选择结束日期后生成标签
+    if (value?.from && value.to) {
+      onSelect?.([
+        createDateRangeValue(
+          startOfDay(value.from),
+          endOfDay(value.to),
+          options
+        ),
+      ]);
+    }
+  };
+
+  const handleDateSelect = (value: Date | undefined) => {
+    if (value) {
+      onSelect?.([createDateValue(startOfDay(value), options)]);
+    }
+  };
+
+  const month = Array.isArray(currentDate) ? currentDate[0] : currentDate;
+
+  return (
+    <Card
+      className="flex-row gap-0 border-none py-0 shadow-none"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {presets.length > 0 && (
+        <div className="flex min-w-[120px] flex-col gap-1 border-r p-2">
+          {presets.map((preset) => (
+            <Button
+              key={preset.name}
+              variant="ghost"
+              size="sm"
+              className="h-7 justify-start font-normal text-sm"
+              onClick={() => handlePreset(preset)}
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <CardContent className="p-0">
+        {range ? (
+          <Calendar
+            mode="range"
+            selected={selected}
+            onSelect={handleRangeSelect}
+            defaultMonth={month}
+            disabled={disabled}
+          />
+        ) : (
+          <Calendar
+            mode="single"
+            selected={currentDate instanceof Date ? currentDate : undefined}
+            onSelect={handleDateSelect}
+            defaultMonth={month}
+            disabled={disabled}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
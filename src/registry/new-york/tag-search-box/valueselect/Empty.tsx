@@ -1,6 +1,7 @@
-import React from "react";
+import React, { useContext } from "react";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
-import { CommandEmpty, CommandList } from "@/components/ui/command";
+import { Command, CommandEmpty, CommandList } from "@/components/ui/command";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
 
 interface EmptyProps {
   offset: number;
@@ -10,11 +11,14 @@ interface EmptyProps {
 
 export const Empty = React.forwardRef<HTMLDivElement, EmptyProps>(
   ({ offset, onCancel, emptyText }, ref) => {
+    const { t } = useContext(TagSearchBoxContext);
     return (
       <DropdownMenu>
-        <CommandList>
-          <CommandEmpty onClick={onCancel}>{emptyText || "Empty"}</CommandEmpty>
-        </CommandList>
+        <Command>
+          <CommandList>
+            <CommandEmpty onClick={onCancel}>{emptyText || t("empty")}</CommandEmpty>
+          </CommandList>
+        </Command>
       </DropdownMenu>
     );
   }
@@ -0,0 +1,31 @@
+import React, { useContext } from "react";
+import { DropdownMenu } from "@/components/ui/dropdown-menu";
+import { Command, CommandItem, CommandList } from "@/components/ui/command";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+interface LoadErrorProps {
+  onRetry: () => void;
+  errorText?: React.ReactNode;
+}
+
+export const LoadError = ({ onRetry, errorText }: LoadErrorProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  return (
+    <DropdownMenu>
+      <Command>
+        <CommandList>
+          <div className="py-3 px-2 text-center text-sm text-destructive">
+            {errorText || t("loadFailed")}
+          </div>
+          <CommandItem
+            className="justify-center"
+            onClick={(e) => e.stopPropagation()}
+            onSelect={onRetry}
+          >
+            {t("retry")}
+          </CommandItem>
+        </CommandList>
+      </Command>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,40 @@
+import { useContext, useEffect, useRef } from "react";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+interface LoadMoreProps {
+  hasMore?: boolean;
+  loading?: boolean;
+  onLoadMore?: () => void;
+}
+
+/**
+ * 列表底部的加载触发器，滚动到可见区域时加载下一页
+ */
+export const LoadMore = ({ hasMore, loading, onLoadMore }: LoadMoreProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || loading || !onLoadMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore && !loading) return null;
+
+  return (
+    <div
+      ref={ref}
+      className="flex items-center justify-center p-2 text-xs text-muted-foreground"
+    >
+      {loading ? t("loading") : null}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React from "react";
+import React, { useContext } from "react";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
-import { CommandList, CommandItem } from "@/components/ui/command";
+import { Command, CommandList, CommandItem } from "@/components/ui/command";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
 
 interface LoadingProps {
   offset: number;
@@ -8,11 +9,14 @@ interface LoadingProps {
 
 export const Loading = React.forwardRef<HTMLDivElement, LoadingProps>(
   ({ offset }, ref) => {
+    const { t } = useContext(TagSearchBoxContext);
     return (
       <DropdownMenu>
-        <CommandList>
-          <CommandItem>Loading...</CommandItem>
-        </CommandList>
+        <Command>
+          <CommandList>
+            <CommandItem>{t("loading")}</CommandItem>
+          </CommandList>
+        </Command>
       </DropdownMenu>
     );
   }
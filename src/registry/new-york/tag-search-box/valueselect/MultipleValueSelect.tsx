@@ -1,13 +1,24 @@
 import React, { Component } from "react";
-import { searchFilter } from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import {
+  filterList,
+  FilterFn,
+} from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import {
+  createActiveOptionNotifier,
+  getOptionId,
+  ListboxProps,
+} from "@/registry/new-york/tag-search-box/utils/Listbox";
+import { Highlight } from "@/registry/new-york/tag-search-box/Highlight";
+import { LoadMore } from "@/registry/new-york/tag-search-box/valueselect/LoadMore";
+import { VirtualList } from "@/registry/new-york/tag-search-box/valueselect/VirtualList";
 
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
 
 const keys: Record<string, string> = {
   "8": "backspace",
@@ -19,7 +30,9 @@ const keys: Record<string, string> = {
   "40": "down",
 };
 
-interface IMultipleValueSelectProps {
+const ITEM_HEIGHT = 36;
+
+interface IMultipleValueSelectProps extends ListboxProps {
   values: Value[];
   inputValue: string;
   onChange: (value: Value[]) => void;
@@ -48,6 +61,30 @@ interface IMultipleValueSelectProps {
    * @since 2.7.9
    */
   itemRender?: (text: string, value: Value) => React.ReactNode;
+  /**
+   * 是否为远程搜索模式，此时搜索关键字通过 `onSearch` 交由外部处理
+   */
+  remote?: boolean;
+  /**
+   * 远程模式下是否还有下一页
+   */
+  hasMore?: boolean;
+  /**
+   * 远程模式下是否正在加载
+   */
+  loading?: boolean;
+  /**
+   * 列表滚动到底部时触发
+   */
+  onLoadMore?: () => void;
+  /**
+   * 搜索关键字变化时触发
+   */
+  onSearch?: (keyword: string) => void;
+  /**
+   * 自定义匹配函数，默认模糊匹配
+   */
+  filterFn?: FilterFn;
 }
 
 interface IMultipleValueSelectRef {
@@ -59,12 +96,20 @@ interface IMultipleValueSelectState {
   select: number[];
   searchValue: string;
   lastInputValue: string;
+  lastValues: Value[];
 }
 
 class IMultipleValueSelect extends Component<
   IMultipleValueSelectProps,
   IMultipleValueSelectState
 > {
+  static contextType = TagSearchBoxContext;
+  declare context: React.ContextType<typeof TagSearchBoxContext>;
+
+  // 高亮项在过滤后的列表中时为其元素 id，渲染时更新
+  private activeOptionId: string | undefined;
+  private notifyActiveOption = createActiveOptionNotifier();
+
   constructor(props: IMultipleValueSelectProps) {
     super(props);
 
@@ -88,6 +133,7 @@ class IMultipleValueSelect extends Component<
       select,
       searchValue: "",
       lastInputValue: props.inputValue,
+      lastValues: props.values,
     };
   }
 
@@ -98,13 +144,25 @@ class IMultipleValueSelect extends Component<
     if (select.length <= 0 && onSelect) {
       onSelect(this.getValue(select));
     }
+    this.notifyActiveOption(this.activeOptionId, this.props);
+  }
+
+  componentDidUpdate() {
+    this.notifyActiveOption(this.activeOptionId, this.props);
+  }
+
+  componentWillUnmount() {
+    this.props.onActiveOptionChange?.(undefined);
   }
 
   static getDerivedStateFromProps(
     props: IMultipleValueSelectProps,
     state: IMultipleValueSelectState
   ) {
-    if (state.lastInputValue !== props.inputValue) {
+    if (
+      state.lastInputValue !== props.inputValue ||
+      state.lastValues !== props.values
+    ) {
       const list = props.inputValue.split("|").map((i) => i.trim());
       const select: number[] = [];
 
@@ -119,7 +177,11 @@ class IMultipleValueSelect extends Component<
         }
       });
 
-      return { select, lastInputValue: props.inputValue };
+      return {
+        select,
+        lastInputValue: props.inputValue,
+        lastValues: props.values,
+      };
     }
     return null;
   }
@@ -179,6 +241,12 @@ class IMultipleValueSelect extends Component<
     }));
   };
 
+  handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const searchValue = e.target.value;
+    this.setState({ searchValue });
+    this.props.onSearch?.(searchValue);
+  };
+
   handleClick = (e: React.MouseEvent, index: number) => {
     e.stopPropagation();
 
@@ -234,45 +302,125 @@ class IMultipleValueSelect extends Component<
 
   render() {
     const { curIndex, select, searchValue } = this.state;
+    const { t } = this.context;
     const {
       values,
       offset = 0,
       all = true,
       maxHeight = 350,
-      searchable = false,
+      remote = false,
+      searchable = remote,
       maxWidth,
-      itemRender = (x) => x,
+      hasMore,
+      loading,
+      onLoadMore,
+      itemRender,
+      filterFn,
+      listboxId,
     } = this.props;
 
-    const filteredItems = values
-      .map((item, index) => ({ ...item, index }))
-      .filter(({ name }) => searchFilter(name, searchValue))
-      .map(({ index, ...item }) => (
+    // 仅保存匹配项的下标（按得分排序），列表项在滚动到可见区域时才渲染
+    const filtered = filterList(
+      values,
+      (item) => item.name,
+      remote ? "" : searchValue,
+      filterFn
+    );
+    const filteredIndexes = filtered.map(({ index }) => index);
+
+    const selected = new Set(select);
+    // 全选项作为列表第一项，与 curIndex 为 0 时对应
+    const showAll = all && !searchValue;
+    const allOffset = showAll ? 1 : 0;
+
+    const count = filteredIndexes.length + allOffset;
+    const renderItem = (position: number) => {
+      if (showAll && position === 0) {
+        return (
+          <div
+            id={getOptionId(listboxId, "all")}
+            role="option"
+            aria-selected={select.length === values.length}
+            aria-setsize={count}
+            aria-posinset={1}
+            className={cn(
+              "flex h-full items-center px-2 rounded-md cursor-pointer hover:bg-slate-100 transition-colors",
+              curIndex === 0 ? "bg-slate-100" : ""
+            )}
+            onClick={this.handleSelectAll}
+          >
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={select.length === values.length}
+                id="select-all"
+                tabIndex={-1}
+                aria-hidden
+                className="data-[state=checked]:bg-blue-500"
+              />
+              <label
+                htmlFor="select-all"
+                className="text-sm font-medium cursor-pointer"
+              >
+                {t("selectAll")}
+              </label>
+            </div>
+          </div>
+        );
+      }
+
+      const index = filteredIndexes[position - allOffset];
+      const item = values[index];
+      return (
         <div
-          key={index}
+          id={getOptionId(listboxId, index)}
+          role="option"
+          aria-selected={selected.has(index)}
+          aria-setsize={count}
+          aria-posinset={position + 1}
           className={cn(
-            "flex items-center p-2 rounded-md cursor-pointer hover:bg-slate-100 transition-colors",
+            "flex h-full items-center px-2 rounded-md cursor-pointer hover:bg-slate-100 transition-colors",
             curIndex === index + 1 ? "bg-slate-100" : ""
           )}
           onClick={(e) => this.handleClick(e, index)}
         >
-          <div className="flex items-center gap-2">
+          <div className="flex min-w-0 items-center gap-2">
             <Checkbox
-              checked={select.indexOf(index) >= 0}
+              checked={selected.has(index)}
               id={`item-${index}`}
+              tabIndex={-1}
+              aria-hidden
               className="data-[state=checked]:bg-blue-500"
             />
             <label
               htmlFor={`item-${index}`}
-              className="text-sm cursor-pointer"
+              className="truncate text-sm cursor-pointer"
               style={item.style || {}}
               title={item.name}
             >
-              {itemRender(item.name, item)}
+              {itemRender ? (
+                itemRender(item.name, item)
+              ) : (
+                <Highlight
+                  text={item.name}
+                  indexes={filtered[position - allOffset].match.indexes}
+                />
+              )}
             </label>
           </div>
         </div>
-      ));
+      );
+    };
+
+    const activeIndex =
+      curIndex === 0
+        ? showAll
+          ? 0
+          : -1
+        : filteredIndexes.indexOf(curIndex - 1) + allOffset;
+    this.activeOptionId =
+      activeIndex < 0
+        ? undefined
+        : getOptionId(listboxId, curIndex === 0 ? "all" : curIndex - 1);
 
     return (
       <Card
@@ -285,53 +433,41 @@ class IMultipleValueSelect extends Component<
         {searchable && (
           <div className="p-2 border-b">
             <Input
-              placeholder="搜索..."
+              placeholder={t("searchPlaceholder")}
               value={searchValue}
-              onChange={(e) => this.setState({ searchValue: e.target.value })}
+              onChange={this.handleSearch}
               className="h-8"
             />
           </div>
         )}
 
         <CardContent className="p-0">
-          <ScrollArea
-            className="h-full max-h-[300px]"
-            style={{ maxHeight: maxHeight - 50 }}
-          >
-            <div className="p-1">
-              {all && !searchValue && (
-                <div
-                  className={cn(
-                    "flex items-center p-2 rounded-md cursor-pointer hover:bg-slate-100 transition-colors",
-                    curIndex === 0 ? "bg-slate-100" : ""
-                  )}
-                  onClick={this.handleSelectAll}
-                >
-                  <div className="flex items-center gap-2">
-                    <Checkbox
-                      checked={select.length === values.length}
-                      id="select-all"
-                      className="data-[state=checked]:bg-blue-500"
-                    />
-                    <label
-                      htmlFor="select-all"
-                      className="text-sm font-medium cursor-pointer"
-                    >
-                      Select All
-                    </label>
-                  </div>
-                </div>
-              )}
-
-              {filteredItems.length === 0 ? (
-                <div className="flex items-center justify-center p-4 text-sm text-slate-500">
-                  没有匹配的结果
-                </div>
-              ) : (
-                filteredItems
-              )}
+          {filteredIndexes.length === 0 && !loading ? (
+            <div className="flex items-center justify-center p-4 text-sm text-slate-500">
+              {t("noMatch")}
             </div>
-          </ScrollArea>
+          ) : (
+            <VirtualList
+              id={listboxId}
+              role="listbox"
+              aria-label={t("values")}
+              aria-multiselectable
+              className="p-1"
+              count={count}
+              itemHeight={ITEM_HEIGHT}
+              maxHeight={Math.min(maxHeight - 50, 300)}
+              activeIndex={activeIndex}
+              renderItem={renderItem}
+            >
+              {remote && (
+                <LoadMore
+                  hasMore={hasMore}
+                  loading={loading}
+                  onLoadMore={onLoadMore}
+                />
+              )}
+            </VirtualList>
+          )}
         </CardContent>
 
         <CardFooter className="flex justify-end p-2 [.border-t]:pt-2 border-t border-gray-200">
@@ -343,7 +479,7 @@ class IMultipleValueSelect extends Component<
               variant="default"
               className="h-7 font-normal text-sm"
             >
-              OK
+              {t("ok")}
             </Button>
             <Button
               variant="ghost"
@@ -351,7 +487,7 @@ class IMultipleValueSelect extends Component<
               onClick={this.handleCancel}
               className="h-7 font-normal text-sm"
             >
-              Cancel
+              {t("cancel")}
             </Button>
           </div>
         </CardFooter>
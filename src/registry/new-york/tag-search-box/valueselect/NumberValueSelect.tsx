@@ -0,0 +1,110 @@
+import React, { useContext } from "react";
+import {
+  createNumberValue,
+  NumberTypeOptions,
+  parseNumberValue,
+} from "@/registry/new-york/tag-search-box/utils/NumberValue";
+
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+
+export interface NumberValueSelectProps extends NumberTypeOptions {
+  inputValue: string;
+  onChange?: (value: Value[]) => void;
+  onSelect?: (value: Value[]) => void;
+  onCancel?: () => void;
+}
+
+export const NumberValueSelect = ({
+  inputValue,
+  onChange,
+  onSelect,
+  onCancel,
+  ...options
+}: NumberValueSelectProps) => {
+  const { t } = useContext(TagSearchBoxContext);
+  const { min = 0, max = 100, step = 1, unit, range = false } = options;
+  const current = parseNumberValue(inputValue, options);
+  const invalid = inputValue.trim().length > 0 && !current;
+
+  let sliderValue = range ? [min, max] : [min];
+  if (Array.isArray(current?.number)) {
+    sliderValue = current.number;
+  } else if (typeof current?.number === "number") {
+    sliderValue = [current.number];
+  }
+
+  const handleSliderChange = (value: number[]) => {
+    onChange?.([
+      createNumberValue(
+        value.length > 1 ? [value[0], value[1]] : value[0],
+        options
+      ),
+    ]);
+  };
+
+  const handleSubmit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (current) {
+      onSelect?.([current]);
+    }
+  };
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCancel?.();
+  };
+
+  return (
+    <Card
+      className="w-[280px] gap-0 border-none py-0 shadow-none"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <CardContent className="flex flex-col gap-3 p-3">
+        <Slider
+          min={min}
+          max={max}
+          step={step}
+          value={sliderValue}
+          onValueChange={handleSliderChange}
+        />
+        <div
+          className={cn(
+            "text-xs",
+            invalid ? "text-destructive" : "text-muted-foreground"
+          )}
+        >
+          {invalid
+            ? t("numberRangeHint", { min, max })
+            : `${min} - ${max}${unit ? ` ${unit}` : ""}`}
+        </div>
+      </CardContent>
+
+      <CardFooter className="flex justify-end p-2 [.border-t]:pt-2 border-t border-gray-200">
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={handleSubmit}
+            disabled={!current}
+            variant="default"
+            className="h-7 font-normal text-sm"
+          >
+            {t("ok")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCancel}
+            className="h-7 font-normal text-sm"
+          >
+            {t("cancel")}
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -1,14 +1,25 @@
 import React, { Component } from "react";
-import { searchFilter } from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import {
+  filterList,
+  FilterFn,
+} from "@/registry/new-york/tag-search-box/utils/SearchFilter";
+import {
+  createActiveOptionNotifier,
+  getOptionId,
+  ListboxProps,
+} from "@/registry/new-york/tag-search-box/utils/Listbox";
+import { Highlight } from "@/registry/new-york/tag-search-box/Highlight";
+import { LoadMore } from "@/registry/new-york/tag-search-box/valueselect/LoadMore";
+import { VirtualList } from "@/registry/new-york/tag-search-box/valueselect/VirtualList";
 
 import {
   Card,
   CardContent
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
 
 const keys: Record<string, string> = {
   "8": "backspace",
@@ -20,7 +31,9 @@ const keys: Record<string, string> = {
   "40": "down",
 };
 
-interface SingleValueSelectProps {
+const ITEM_HEIGHT = 36;
+
+interface SingleValueSelectProps extends ListboxProps {
     values: Value[];
     inputValue: string;
     onChange?: (value: Value[]) => void;
@@ -43,6 +56,30 @@ interface SingleValueSelectProps {
      * @since 2.7.9
      */
     itemRender?: (text: string, value: Value) => React.ReactNode;
+    /**
+     * 是否为远程搜索模式，此时搜索关键字通过 `onSearch` 交由外部处理
+     */
+    remote?: boolean;
+    /**
+     * 远程模式下是否还有下一页
+     */
+    hasMore?: boolean;
+    /**
+     * 远程模式下是否正在加载
+     */
+    loading?: boolean;
+    /**
+     * 列表滚动到底部时触发
+     */
+    onLoadMore?: () => void;
+    /**
+     * 搜索关键字变化时触发
+     */
+    onSearch?: (keyword: string) => void;
+    /**
+     * 自定义匹配函数，默认模糊匹配
+     */
+    filterFn?: FilterFn;
 }
 
 interface SingleValueSelectRef {
@@ -55,6 +92,13 @@ interface SingleValueSelectState {
 }
 
 class SingleValueSelect extends Component<SingleValueSelectProps, SingleValueSelectState> {
+  static contextType = TagSearchBoxContext;
+  declare context: React.ContextType<typeof TagSearchBoxContext>;
+
+  // 高亮项在过滤后的列表中时为其元素 id，渲染时更新
+  private activeOptionId: string | undefined;
+  private notifyActiveOption = createActiveOptionNotifier();
+
   constructor(props: SingleValueSelectProps) {
     super(props);
     
@@ -80,6 +124,15 @@ class SingleValueSelect extends Component<SingleValueSelectProps, SingleValueSel
     if (select < 0 && onSelect) {
       onSelect(this.getValue(select));
     }
+    this.notifyActiveOption(this.activeOptionId, this.props);
+  }
+
+  componentDidUpdate() {
+    this.notifyActiveOption(this.activeOptionId, this.props);
+  }
+
+  componentWillUnmount() {
+    this.props.onActiveOptionChange?.(undefined);
   }
 
   static getDerivedStateFromProps(props: SingleValueSelectProps) {
@@ -139,6 +192,12 @@ class SingleValueSelect extends Component<SingleValueSelectProps, SingleValueSel
     }));
   };
 
+  handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const searchValue = e.target.value;
+    this.setState({ searchValue });
+    this.props.onSearch?.(searchValue);
+  };
+
   handleClick = (e: React.MouseEvent, index: number) => {
     e.stopPropagation();
     const { onSelect } = this.props;
@@ -149,38 +208,69 @@ class SingleValueSelect extends Component<SingleValueSelectProps, SingleValueSel
 
   render() {
     const { select, searchValue } = this.state;
+    const { t } = this.context;
     const {
       values,
       offset = 0,
       maxHeight = 300,
-      searchable = false,
+      remote = false,
+      searchable = remote,
       maxWidth,
-      itemRender = (x) => x
+      hasMore,
+      loading,
+      onLoadMore,
+      itemRender,
+      filterFn,
+      listboxId,
     } = this.props;
 
-    const filteredItems = values
-      .map((item, index) => ({ ...item, index }))
-      .filter(({ name }) => searchFilter(name, searchValue))
-      .map(({ index, ...item }) => (
-        <div 
-          key={index} 
+    // 仅保存匹配项的下标（按得分排序），列表项在滚动到可见区域时才渲染
+    const filtered = filterList(
+      values,
+      (item) => item.name,
+      remote ? "" : searchValue,
+      filterFn
+    );
+    const filteredIndexes = filtered.map(({ index }) => index);
+    this.activeOptionId = filteredIndexes.includes(select)
+      ? getOptionId(listboxId, select)
+      : undefined;
+
+    const renderItem = (position: number) => {
+      const index = filteredIndexes[position];
+      const item = values[index];
+      return (
+        <div
+          id={getOptionId(listboxId, index)}
+          role="option"
+          aria-selected={select === index}
+          aria-setsize={filteredIndexes.length}
+          aria-posinset={position + 1}
           className={cn(
-            "px-3 py-2 cursor-pointer text-sm rounded-md transition-colors",
-            select === index 
-              ? "bg-blue-100 text-blue-900" 
+            "flex h-full items-center px-3 cursor-pointer text-sm rounded-md transition-colors",
+            select === index
+              ? "bg-blue-100 text-blue-900"
               : "hover:bg-slate-100"
           )}
           onClick={(e) => this.handleClick(e, index)}
         >
-          <span 
-            title={item.name} 
+          <span
+            title={item.name}
             style={item.style || {}}
             className="block truncate"
           >
-            {itemRender(item.name, item)}
+            {itemRender ? (
+              itemRender(item.name, item)
+            ) : (
+              <Highlight
+                text={item.name}
+                indexes={filtered[position].match.indexes}
+              />
+            )}
           </span>
         </div>
-      ));
+      );
+    };
 
     return (
       <Card 
@@ -193,26 +283,40 @@ class SingleValueSelect extends Component<SingleValueSelectProps, SingleValueSel
         {searchable && (
           <div className="p-2 border-b">
             <Input
-              placeholder="搜索..."
+              placeholder={t("searchPlaceholder")}
               value={searchValue}
-              onChange={(e) => this.setState({ searchValue: e.target.value })}
+              onChange={this.handleSearch}
               className="h-8"
             />
           </div>
         )}
         
         <CardContent className="p-1">
-          <ScrollArea className="h-full" style={{ maxHeight: maxHeight }}>
-            <div className="space-y-1 py-1">
-              {filteredItems.length === 0 ? (
-                <div className="flex items-center justify-center p-4 text-sm text-slate-500">
-                  没有匹配的结果
-                </div>
-              ) : (
-                filteredItems
-              )}
+          {filteredIndexes.length === 0 && !loading ? (
+            <div className="flex items-center justify-center p-4 text-sm text-slate-500">
+              {t("noMatch")}
             </div>
-          </ScrollArea>
+          ) : (
+            <VirtualList
+              id={listboxId}
+              role="listbox"
+              aria-label={t("values")}
+              className="py-1"
+              count={filteredIndexes.length}
+              itemHeight={ITEM_HEIGHT}
+              maxHeight={maxHeight}
+              activeIndex={filteredIndexes.indexOf(select)}
+              renderItem={renderItem}
+            >
+              {remote && (
+                <LoadMore
+                  hasMore={hasMore}
+                  loading={loading}
+                  onLoadMore={onLoadMore}
+                />
+              )}
+            </VirtualList>
+          )}
         </CardContent>
       </Card>
     );
@@ -2,13 +2,26 @@ import React, { Component } from "react";
 import { PureInput } from "@/registry/new-york/tag-search-box/valueselect/PureInput";
 import { SingleValueSelect } from "@/registry/new-york/tag-search-box/valueselect/SingleValueSelect";
 import { MultipleValueSelect } from "@/registry/new-york/tag-search-box/valueselect/MultipleValueSelect";
-import { AttributeValue } from "@/registry/new-york/tag-search-box/AttributeSelect";
-import { Value } from "@/registry/new-york/tag-search-box/AttributeSelect";
+import { DateValueSelect } from "@/registry/new-york/tag-search-box/valueselect/DateValueSelect";
+import { NumberValueSelect } from "@/registry/new-york/tag-search-box/valueselect/NumberValueSelect";
+import {
+  AttributeValue,
+  Value,
+  ValuesLoaderContext,
+  ValuesLoaderResult,
+} from "@/registry/new-york/tag-search-box/AttributeSelect";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
 import { Loading } from "@/registry/new-york/tag-search-box/valueselect/Loading";
 import { Empty } from "@/registry/new-york/tag-search-box/valueselect/Empty";
+import { LoadError } from "@/registry/new-york/tag-search-box/valueselect/LoadError";
+import { TagSearchBoxContext } from "@/registry/new-york/tag-search-box/TagSearchboxContext";
+import { ListboxProps } from "@/registry/new-york/tag-search-box/utils/Listbox";
 
-interface ValueSelectProps {
+interface ValueSelectProps extends ListboxProps {
+  /**
+   * 属性 key，用于缓存已加载的可选值
+   */
+  attrKey?: string;
   /**
    * 值选择组件类型，用于选择不同组件
    */
@@ -28,6 +41,10 @@ interface ValueSelectProps {
   onChange?: (value: Value[]) => void;
   onSelect?: (value: Value[]) => void;
   onCancel?: () => void;
+  /**
+   * 可选值加载失败时调用
+   */
+  onLoadError?: (error: unknown) => void;
   offset: number;
   maxHeight: number;
 }
@@ -38,53 +55,263 @@ interface ValueSelectRef {
 }
 
 interface ValueSelectState {
-  values: any[];
+  /**
+   * 可选值，首次加载完成前为 `null`
+   */
+  values: Value[] | null;
+  /**
+   * 是否为远程搜索模式
+   */
+  remote: boolean;
+  hasMore: boolean;
+  loading: boolean;
+  keyword: string;
+  /**
+   * 加载失败的页码及错误，重试时重新加载该页
+   */
+  loadError: { page: number; error: unknown } | null;
 }
 
+type ValuesLoader = (
+  ctx: ValuesLoaderContext
+) => Value[] | Promise<Value[] | ValuesLoaderResult>;
+
+/**
+ * 远程搜索输入防抖时间（毫秒）
+ */
+const SEARCH_DEBOUNCE = 300;
+
 export class ValueSelect extends Component<
   ValueSelectProps & {
     forwardRef?: React.Ref<ValueSelectRef>;
   },
   ValueSelectState
 > {
+  static contextType = TagSearchBoxContext;
+  declare context: React.ContextType<typeof TagSearchBoxContext>;
+
   private mount: boolean = false;
   private select: any = null;
   private operationalKeyDownListener: (key: string) => void = () => {};
+  private controller: AbortController | null = null;
+  private searchTimer: ReturnType<typeof setTimeout> | undefined;
+  private page = 0;
+  // 远程模式下已加载过的值，用于在关键字变化后保留已选中项
+  private loadedValues = new Map<string, Value>();
+  // 上次置顶选中项后的多选列表
+  private multipleValuesMemo: {
+    values: Value[];
+    pinned: Value[];
+    result: Value[];
+  } | null = null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(props: ValueSelectProps) {
     super(props);
     this.state = {
-      values: Array.isArray(props.values) ? props.values : [],
+      values: Array.isArray(props.values) ? props.values : null,
+      remote: false,
+      hasMore: false,
+      loading: false,
+      keyword: "",
+      loadError: null,
     };
   }
 
   componentDidMount() {
     this.mount = true;
-    const { values: propsValues } = this.props;
+    const { attrKey } = this.props;
+    const { valuesCache } = this.context;
 
-    if (typeof propsValues === "function") {
-      const result = propsValues();
-
-      // Promise处理
-      if (result && "then" in result) {
-        result.then((fetchedValues) => {
-          if (this.mount) {
-            this.setState({ values: fetchedValues });
-          }
-        });
-      } else {
-        if (this.mount) {
-          this.setState({ values: result });
-        }
-      }
+    if (!valuesCache || !attrKey) {
+      this.load("", 1);
+      return;
+    }
+
+    this.unsubscribe = valuesCache.cache.subscribe(this.handleInvalidate);
+
+    const entry = valuesCache.cache.get(attrKey);
+    const expired = !!entry && Date.now() - entry.time > valuesCache.ttl;
+    if (!entry || (expired && !valuesCache.staleWhileRevalidate)) {
+      this.load("", 1);
+      return;
+    }
+
+    // 命中缓存时直接展示，过期时在后台重新加载
+    this.page = 1;
+    entry.values.forEach((item) =>
+      this.loadedValues.set(item.name.trim(), item)
+    );
+    this.setState({
+      values: entry.values,
+      remote: entry.remote,
+      hasMore: entry.hasMore,
+    });
+    if (expired) {
+      this.load("", 1, true);
     }
   }
 
   componentWillUnmount() {
     this.mount = false;
+    this.unsubscribe?.();
+    clearTimeout(this.searchTimer);
+    this.controller?.abort();
+  }
+
+  /**
+   * 加载可选值，`silent` 为 `true` 时保留当前列表，失败时不展示错误状态
+   */
+  load = (keyword: string, page: number, silent = false) => {
+    const { values: propsValues } = this.props;
+    if (typeof propsValues !== "function") return;
+
+    // 中止仍在进行中的过期请求
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    let result: ReturnType<ValuesLoader>;
+    try {
+      result = (propsValues as ValuesLoader)({
+        keyword,
+        signal: controller.signal,
+        page,
+      });
+    } catch (error) {
+      this.handleLoadError(page, error, silent);
+      return;
+    }
+
+    if (!result || !("then" in result)) {
+      this.setCache({ values: result, remote: false, hasMore: false });
+      this.setState({ values: result, loadError: null });
+      return;
+    }
+
+    this.setState({ loading: !silent, loadError: null });
+    result
+      .then((fetched) => {
+        if (!this.mount || controller.signal.aborted) return;
+
+        // 返回数组时视为一次性加载全部可选值
+        if (Array.isArray(fetched)) {
+          this.setCache({ values: fetched, remote: false, hasMore: false });
+          this.setState({ values: fetched, loading: false });
+          return;
+        }
+
+        if (page === 1 && !keyword) {
+          this.setCache({
+            values: fetched.values,
+            remote: true,
+            hasMore: !!fetched.hasMore,
+          });
+        }
+
+        this.page = page;
+        fetched.values.forEach((item) =>
+          this.loadedValues.set(item.name.trim(), item)
+        );
+        this.setState((state) => ({
+          values:
+            page > 1 && state.values
+              ? [...state.values, ...fetched.values]
+              : fetched.values,
+          remote: true,
+          hasMore: !!fetched.hasMore,
+          loading: false,
+        }));
+      })
+      .catch((error) => {
+        if (!this.mount || controller.signal.aborted) return;
+        this.handleLoadError(page, error, silent);
+      });
+  };
+
+  setCache(entry: { values: Value[]; remote: boolean; hasMore: boolean }) {
+    const { attrKey } = this.props;
+    if (attrKey) {
+      this.context.valuesCache?.cache.set(attrKey, entry);
+    }
+  }
+
+  handleInvalidate = (key?: string) => {
+    if (key === undefined || key === this.props.attrKey) {
+      this.load(this.state.keyword, 1, true);
+    }
+  };
+
+  handleLoadError = (page: number, error: unknown, silent = false) => {
+    this.setState((state) => ({
+      loading: false,
+      loadError: silent ? state.loadError : { page, error },
+    }));
+    this.props.onLoadError?.(error);
+  };
+
+  handleRetry = () => {
+    const { loadError, keyword } = this.state;
+    if (loadError) {
+      this.load(keyword, loadError.page);
+    }
+  };
+
+  handleSearch = (keyword: string) => {
+    this.setState({ keyword });
+    if (!this.state.remote) return;
+
+    clearTimeout(this.searchTimer);
+    this.controller?.abort();
+    this.searchTimer = setTimeout(() => this.load(keyword, 1), SEARCH_DEBOUNCE);
+  };
+
+  handleLoadMore = () => {
+    const { remote, hasMore, loading, keyword } = this.state;
+    if (!remote || !hasMore || loading) return;
+    this.load(keyword, this.page + 1);
+  };
+
+  /**
+   * 远程多选时将已选中但不在当前结果中的值置顶，避免切换关键字后丢失
+   */
+  getMultipleValues(values: Value[]) {
+    const { inputValue } = this.props;
+    if (!this.state.remote) return values;
+
+    const names = new Set(values.map((item) => item.name.trim()));
+    const pinned = inputValue
+      .split("|")
+      .map((name) => name.trim())
+      .filter((name) => name && !names.has(name))
+      .map((name) => this.loadedValues.get(name))
+      .filter((item): item is Value => !!item);
+
+    // 结果不变时复用上次的数组，避免多选列表每次渲染都重新计算选中状态
+    const memo = this.multipleValuesMemo;
+    if (
+      memo &&
+      memo.values === values &&
+      memo.pinned.length === pinned.length &&
+      memo.pinned.every((item, index) => item === pinned[index])
+    ) {
+      return memo.result;
+    }
+
+    const result = pinned.length > 0 ? [...pinned, ...values] : values;
+    this.multipleValuesMemo = { values, pinned, result };
+    return result;
   }
 
   handleKeyDown = (keyCode: string | number) => {
+    // 加载失败时回车或 Tab 重试
+    if (this.state.loadError) {
+      if (keyCode === 13 || keyCode === 9) {
+        this.handleRetry();
+        return false;
+      }
+      return true;
+    }
     if (this.select && this.select.handleKeyDown) {
       return this.select.handleKeyDown(keyCode);
     }
@@ -99,7 +326,7 @@ export class ValueSelect extends Component<
   };
 
   render() {
-    const { values } = this.state;
+    const { values, remote, hasMore, loading, keyword, loadError } = this.state;
     const {
       type,
       inputValue,
@@ -109,6 +336,8 @@ export class ValueSelect extends Component<
       offset = 0,
       maxHeight,
       render,
+      listboxId,
+      onActiveOptionChange,
     } = this.props;
 
     // 如果提供了自定义渲染函数
@@ -136,22 +365,23 @@ export class ValueSelect extends Component<
       typeOptions = [type, {}];
     }
 
-    const commonProps = {
-      values,
-      inputValue,
-      onChange,
-      onSelect,
-      onCancel,
-      offset,
-      maxHeight,
-    };
+    const remoteProps = remote
+      ? {
+          remote,
+          hasMore,
+          loading,
+          onLoadMore: this.handleLoadMore,
+          onSearch: this.handleSearch,
+        }
+      : {};
+    const listboxProps = { listboxId, onActiveOptionChange };
 
     // 根据不同类型渲染不同组件
     switch (typeOptions[0]) {
       case "input":
         // PureInput requires all callbacks to be non-optional
         const inputProps = {
-          values,
+          values: values || [],
           inputValue: inputValue || "",
           onChange: onChange || (() => {}),
           onSelect: onSelect || (() => {}),
@@ -169,11 +399,21 @@ export class ValueSelect extends Component<
       case "single":
         const singleOptions = typeOptions[1];
 
+        if (loadError) {
+          return (
+            <LoadError
+              errorText={singleOptions.errorText}
+              onRetry={this.handleRetry}
+            />
+          );
+        }
+
         if (!Array.isArray(values)) {
           return <Loading offset={offset} />;
         }
 
-        if (!values.length) {
+        // 远程搜索无结果时保留搜索框
+        if (!values.length && !keyword) {
           return (
             <Empty {...singleOptions} offset={offset} onCancel={onCancel} />
           );
@@ -181,8 +421,17 @@ export class ValueSelect extends Component<
 
         return (
           <SingleValueSelect
-            {...commonProps}
+            values={values}
+            inputValue={inputValue}
+            onChange={onChange}
+            onSelect={onSelect}
+            onCancel={onCancel}
+            offset={offset}
+            maxHeight={maxHeight}
+            filterFn={this.context.filterFn}
             {...singleOptions}
+            {...remoteProps}
+            {...listboxProps}
             ref={(select) => (this.select = select)}
           />
         );
@@ -190,11 +439,21 @@ export class ValueSelect extends Component<
       case "multiple":
         const multipleOptions = typeOptions[1];
 
+        if (loadError) {
+          return (
+            <LoadError
+              errorText={multipleOptions.errorText}
+              onRetry={this.handleRetry}
+            />
+          );
+        }
+
         if (!Array.isArray(values)) {
           return <Loading offset={offset} />;
         }
 
-        if (!values.length) {
+        // 远程搜索无结果时保留搜索框
+        if (!values.length && !keyword) {
           return (
             <Empty {...multipleOptions} offset={offset} onCancel={onCancel} />
           );
@@ -202,12 +461,43 @@ export class ValueSelect extends Component<
 
         return (
           <MultipleValueSelect
-            {...commonProps}
+            values={this.getMultipleValues(values)}
+            inputValue={inputValue}
+            onChange={onChange}
+            onSelect={onSelect}
+            onCancel={onCancel}
+            offset={offset}
+            maxHeight={maxHeight}
+            filterFn={this.context.filterFn}
             {...multipleOptions}
+            {...remoteProps}
+            {...listboxProps}
             ref={(select) => (this.select = select)}
           />
         );
 
+      case "date":
+      case "dateRange":
+        return (
+          <DateValueSelect
+            {...typeOptions[1]}
+            range={typeOptions[0] === "dateRange"}
+            inputValue={inputValue}
+            onSelect={onSelect}
+          />
+        );
+
+      case "number":
+        return (
+          <NumberValueSelect
+            {...typeOptions[1]}
+            inputValue={inputValue}
+            onChange={onChange}
+            onSelect={onSelect}
+            onCancel={onCancel}
+          />
+        );
+
       default:
         return null;
     }
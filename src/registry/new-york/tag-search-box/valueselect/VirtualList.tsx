@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+interface VirtualListProps
+  extends Pick<
+    React.HTMLAttributes<HTMLDivElement>,
+    "id" | "role" | "aria-label" | "aria-multiselectable"
+  > {
+  /**
+   * 列表项数量
+   */
+  count: number;
+  /**
+   * 列表项固定高度
+   */
+  itemHeight: number;
+  maxHeight: number;
+  /**
+   * 渲染第 `index` 项
+   */
+  renderItem: (index: number) => React.ReactNode;
+  /**
+   * 当前高亮项，变化时滚动至可见区域
+   */
+  activeIndex?: number;
+  /**
+   * 可见区域外额外渲染的数量
+   * @default 5
+   */
+  overscan?: number;
+  className?: string;
+  /**
+   * 渲染在列表项之后的内容
+   */
+  children?: React.ReactNode;
+}
+
+/**
+ * 仅渲染可见区域内列表项的滚动列表
+ */
+export const VirtualList = ({
+  count,
+  itemHeight,
+  maxHeight,
+  renderItem,
+  activeIndex = -1,
+  overscan = 5,
+  className,
+  children,
+  ...listProps
+}: VirtualListProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || activeIndex < 0 || activeIndex >= count) return;
+
+    const top = activeIndex * itemHeight;
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (top + itemHeight > element.scrollTop + element.clientHeight) {
+      element.scrollTop = top + itemHeight - element.clientHeight;
+    }
+  }, [activeIndex, count, itemHeight]);
+
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + maxHeight) / itemHeight) + overscan
+  );
+
+  const items: React.ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    items.push(
+      <div key={index} style={{ height: itemHeight }}>
+        {renderItem(index)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={ref}
+      className={cn("overflow-y-auto", className)}
+      style={{ maxHeight }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      {/* 无障碍属性设置在仅包含列表项的元素上 */}
+      <div {...listProps} style={{ height: count * itemHeight }}>
+        <div style={{ transform: `translateY(${start * itemHeight}px)` }}>
+          {items}
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+};